@@ -0,0 +1,86 @@
+/**
+ * Command-line argument parsing.
+ */
+
+/** Error for invalid command-line usage. */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliUsageError";
+  }
+}
+
+/** The flags a command accepts: long name -> short alias and kind. */
+export type FlagSpec = Record<
+  string,
+  { short?: string; kind: "boolean" | "string" }
+>;
+
+/** Flag values by long name: `true` for boolean flags, strings otherwise. */
+export type FlagValues<Spec extends FlagSpec> = {
+  [K in keyof Spec]?: Spec[K]["kind"] extends "boolean" ? true : string;
+};
+
+/** Arguments split into positionals and flags. */
+export interface ParsedArgs<Spec extends FlagSpec> {
+  positionals: string[];
+  flags: FlagValues<Spec>;
+}
+
+/**
+ * Split `args` into positionals and the flags in `spec`. Flags may appear
+ * anywhere; string flags take the next argument or `--flag=value`, and `--`
+ * ends flag parsing.
+ * @throws CliUsageError for unknown flags or missing flag values
+ */
+export function parseArgs<Spec extends FlagSpec>(
+  args: readonly string[],
+  spec: Spec,
+): ParsedArgs<Spec> {
+  const byShort = new Map(
+    Object.entries(spec)
+      .filter(([, flag]) => flag.short !== undefined)
+      .map(([name, flag]) => [flag.short, name]),
+  );
+  const positionals: string[] = [];
+  const flags: Record<string, string | true> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--") {
+      positionals.push(...args.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith("-") || arg === "-") {
+      positionals.push(arg);
+      continue;
+    }
+
+    const [key, inline] = arg.startsWith("--")
+      ? splitOnce(arg.slice(2), "=")
+      : [byShort.get(arg.slice(1)) ?? arg, undefined];
+    const flag = Object.hasOwn(spec, key) ? spec[key] : undefined;
+    if (flag === undefined) throw new CliUsageError(`unknown flag: ${arg}`);
+
+    if (flag.kind === "boolean") {
+      if (inline !== undefined) {
+        throw new CliUsageError(`flag --${key} doesn't take a value`);
+      }
+      flags[key] = true;
+    } else {
+      const value = inline ?? args[++i];
+      if (value === undefined) {
+        throw new CliUsageError(`flag --${key} needs a value`);
+      }
+      flags[key] = value;
+    }
+  }
+  return { positionals, flags: flags as FlagValues<Spec> };
+}
+
+function splitOnce(s: string, sep: string): [string, string | undefined] {
+  const index = s.indexOf(sep);
+  return index === -1
+    ? [s, undefined]
+    : [s.slice(0, index), s.slice(index + 1)];
+}
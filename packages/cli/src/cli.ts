@@ -0,0 +1,288 @@
+/**
+ * The `tnid` command: argument handling and subcommands.
+ */
+
+import { DynamicTnid } from "@tnid/core";
+import {
+  decryptV1ToV0,
+  EncryptionError,
+  EncryptionKey,
+  encryptV0ToV1,
+} from "@tnid/encryption";
+import {
+  Blocklist,
+  newDynamicV0Filtered,
+  newDynamicV1Filtered,
+} from "@tnid/filter";
+import { newDynamicV0FilteredForEncryption } from "@tnid/filter/encryption";
+import {
+  CliUsageError,
+  type FlagSpec,
+  type FlagValues,
+  parseArgs,
+} from "./args.ts";
+
+/** Where the CLI writes its output, one line per call. */
+export interface CliOutput {
+  stdout(line: string): void;
+  stderr(line: string): void;
+}
+
+const consoleOutput: CliOutput = {
+  stdout: (line) => console.log(line),
+  stderr: (line) => console.error(line),
+};
+
+const USAGE = `Usage: tnid <command> [options]
+
+Commands:
+  inspect <id>                      Print the fields of a TNID or UUID
+  new <v0|v1> <name>                Generate TNIDs
+      -n, --count <n>               Number of TNIDs to generate (default: 1)
+  convert <id>                      Convert between TNID, UUID and hex bytes
+      -t, --to <tnid|uuid|hex>      Output format (default: tnid for UUID and
+                                    hex input, uuid for TNID input)
+      -u, --upper                   Print UUIDs and hex in uppercase
+  encrypt <id> <key>                Encrypt a V0 TNID to V1 with a 32-hex-char key
+  decrypt <id> <key>                Decrypt a V1 TNID to V0 with a 32-hex-char key
+      -p, --passthrough             Print TNIDs already of the target variant
+                                    unchanged instead of failing
+  filter <v0|v1> <name> <word>...   Generate TNIDs that don't contain any word
+      -n, --count <n>               Number of TNIDs to generate (default: 1)
+      -k, --key <key>               V0 only: also keep the encrypted V1 clean
+  help                              Print this help`;
+
+type Command = (args: readonly string[]) => Promise<string[]> | string[];
+
+const COMMANDS: Record<string, Command> = {
+  inspect,
+  new: newCommand,
+  convert,
+  encrypt: (args) => crypt(args, "encrypt"),
+  decrypt: (args) => crypt(args, "decrypt"),
+  filter,
+  help: () => [USAGE],
+};
+
+/**
+ * Run the `tnid` command with `args` (without the program name), writing to
+ * `output`. Resolves to the process exit code: 0 on success, 1 if the command
+ * failed (e.g. an invalid TNID), 2 for invalid usage. Errors are written to
+ * `output.stderr` as `error: <message>`.
+ *
+ * @example
+ * ```typescript
+ * const code = await run(["new", "v0", "user"]);
+ * ```
+ */
+export async function run(
+  args: readonly string[],
+  output: CliOutput = consoleOutput,
+): Promise<number> {
+  const [name, ...rest] = args;
+  if (name === undefined || name === "--help" || name === "-h") {
+    output.stdout(USAGE);
+    return 0;
+  }
+
+  try {
+    const command = Object.hasOwn(COMMANDS, name) ? COMMANDS[name] : undefined;
+    if (command === undefined) {
+      throw new CliUsageError(`unknown command: ${name}`);
+    }
+    for (const line of await command(rest)) output.stdout(line);
+    return 0;
+  } catch (e) {
+    if (e instanceof CliUsageError) {
+      output.stderr(`error: ${e.message}`);
+      output.stderr("Run 'tnid help' for usage.");
+      return 2;
+    }
+    output.stderr(`error: ${e instanceof Error ? e.message : String(e)}`);
+    return 1;
+  }
+}
+
+// =============================================================================
+// Commands
+// =============================================================================
+
+/**
+ * Print the fields of a TNID as `field: value` lines, in the format of the
+ * Rust CLI's `inspect`.
+ */
+function inspect(args: readonly string[]): string[] {
+  const { values: [input] } = parse(args, {}, ["id"]);
+  const info = DynamicTnid.inspect(DynamicTnid.parse(input));
+
+  const fields: [string, string][] = [
+    ["tnid_string", info.tnid],
+    ["uuid_string", info.uuid],
+    ["name", info.name],
+    ["name_hex", info.nameHex],
+    ["variant", info.variant.toUpperCase()],
+  ];
+  if (info.variant === "v0") {
+    fields.push(
+      ["timestamp_ms", info.timestampMillis.toString()],
+      ["timestamp", info.timestamp.toISOString()],
+    );
+  }
+  if (info.variant === "v0" || info.variant === "v1") {
+    fields.push(["random", `0x${info.randomBits.toString(16)}`]);
+  }
+  return fields.map(([field, value]) => `${field}: ${value}`);
+}
+
+function newCommand(args: readonly string[]): string[] {
+  const { flags, values: [variant, name] } = parse(args, COUNT_FLAG, [
+    "variant",
+    "name",
+  ]);
+  const count = parseCount(flags.count);
+  if (variant === "v0") return DynamicTnid.newV0Batch(name, count);
+  if (variant === "v1") return DynamicTnid.newV1Batch(name, count);
+  throw new CliUsageError(`unknown variant: ${variant} (expected v0 or v1)`);
+}
+
+function convert(args: readonly string[]): string[] {
+  const { flags, values: [input] } = parse(args, {
+    to: { short: "t", kind: "string" },
+    upper: { short: "u", kind: "boolean" },
+  }, ["id"]);
+
+  const hex = input.replace(/^0x/i, "");
+  const isHex = /^[0-9a-f]{32}$/i.test(hex);
+  const id = isHex
+    ? DynamicTnid.fromBytes(hexToBytes(hex))
+    : DynamicTnid.parse(input);
+  const to = flags.to ?? (isHex || !input.includes(".") ? "tnid" : "uuid");
+  const caseFormat = flags.upper ? "upper" : "lower";
+
+  switch (to) {
+    case "tnid":
+      return [id];
+    case "uuid":
+      return [DynamicTnid.toUuidString(id, caseFormat)];
+    case "hex": {
+      const out = bytesToHex(DynamicTnid.toBytes(id));
+      return [caseFormat === "upper" ? out.toUpperCase() : out];
+    }
+    default:
+      throw new CliUsageError(
+        `unknown format: ${to} (expected tnid, uuid or hex)`,
+      );
+  }
+}
+
+async function crypt(
+  args: readonly string[],
+  direction: "encrypt" | "decrypt",
+): Promise<string[]> {
+  const { flags, values: [input, keyHex] } = parse(args, {
+    passthrough: { short: "p", kind: "boolean" },
+  }, ["id", "key"]);
+  const id = DynamicTnid.parse(input);
+  const key = EncryptionKey.fromHex(keyHex);
+
+  const from = direction === "encrypt" ? "v0" : "v1";
+  const variant = DynamicTnid.getVariant(id);
+  if (variant !== from && !flags.passthrough) {
+    throw new EncryptionError(
+      `can only ${direction} ${from.toUpperCase()} TNIDs, got ${variant.toUpperCase()} (use --passthrough to print it unchanged)`,
+    );
+  }
+  return [
+    direction === "encrypt"
+      ? await encryptV0ToV1(id, key)
+      : await decryptV1ToV0(id, key),
+  ];
+}
+
+async function filter(args: readonly string[]): Promise<string[]> {
+  const { flags, values: [variant, name, ...words] } = parse(
+    args,
+    {
+      ...COUNT_FLAG,
+      key: { short: "k", kind: "string" },
+    },
+    ["variant", "name", "word"],
+    { variadic: true },
+  );
+  const count = parseCount(flags.count);
+  const key = flags.key === undefined
+    ? undefined
+    : EncryptionKey.fromHex(flags.key);
+  let blocklist: Blocklist;
+  try {
+    blocklist = new Blocklist(words);
+  } catch (e) {
+    // Words with characters TNID strings can't contain
+    throw new CliUsageError((e as Error).message);
+  }
+
+  let generate: () => DynamicTnid | Promise<DynamicTnid>;
+  if (variant === "v0") {
+    generate = key === undefined
+      ? () => newDynamicV0Filtered(name, blocklist)
+      : () => newDynamicV0FilteredForEncryption(name, blocklist, key);
+  } else if (variant === "v1") {
+    if (key !== undefined) {
+      throw new CliUsageError("--key only applies to v0");
+    }
+    generate = () => newDynamicV1Filtered(name, blocklist);
+  } else {
+    throw new CliUsageError(`unknown variant: ${variant} (expected v0 or v1)`);
+  }
+
+  const ids: string[] = [];
+  for (let i = 0; i < count; i++) ids.push(await generate());
+  return ids;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const COUNT_FLAG = { count: { short: "n", kind: "string" } } as const;
+
+/**
+ * Parse `args` with `spec`, requiring one positional per name in `required`.
+ * With `variadic`, the last may be repeated.
+ */
+function parse<Spec extends FlagSpec>(
+  args: readonly string[],
+  spec: Spec,
+  required: string[],
+  { variadic = false } = {},
+): { flags: FlagValues<Spec>; values: string[] } {
+  const { flags, positionals: values } = parseArgs(args, spec);
+  if (values.length < required.length) {
+    throw new CliUsageError(`missing <${required[values.length]}>`);
+  }
+  if (!variadic && values.length > required.length) {
+    throw new CliUsageError(`unexpected argument: ${values[required.length]}`);
+  }
+  return { flags, values };
+}
+
+function parseCount(value: string | undefined): number {
+  if (value === undefined) return 1;
+  const count = Number(value);
+  if (!Number.isSafeInteger(count) || count < 1) {
+    throw new CliUsageError(`invalid count: ${value}`);
+  }
+  return count;
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,29 @@
+/**
+ * @tnid/cli - Command-line tool for TNIDs
+ *
+ * The `tnid` command: inspect, generate, convert, encrypt and filter TNIDs
+ * without a Rust toolchain. `inspect` prints the same `field: value` lines as
+ * the Rust CLI, so scripts work with either.
+ *
+ * ```bash
+ * npx @tnid/cli new v0 user
+ * deno run jsr:@tnid/cli/main inspect user.Br2flcNDfF6LYICnT
+ * ```
+ *
+ * This module runs the command programmatically.
+ *
+ * @example
+ * ```typescript
+ * import { run } from "@tnid/cli";
+ *
+ * const lines: string[] = [];
+ * const code = await run(["convert", "user.Br2flcNDfF6LYICnT"], {
+ *   stdout: (line) => lines.push(line),
+ *   stderr: (line) => console.error(line),
+ * });
+ * ```
+ *
+ * @module
+ */
+
+export { type CliOutput, run } from "./cli.ts";
@@ -0,0 +1,13 @@
+/**
+ * Entry point of the `tnid` binary.
+ *
+ * ```bash
+ * deno run jsr:@tnid/cli/main inspect user.Br2flcNDfF6LYICnT
+ * ```
+ *
+ * @module
+ */
+
+import { run } from "./cli.ts";
+
+run(Deno.args).then((code) => Deno.exit(code));
@@ -0,0 +1,235 @@
+import { assertEquals, assertMatch } from "@std/assert";
+import { DynamicTnid, Tnid } from "@tnid/core";
+import { decryptV1ToV0, EncryptionKey } from "@tnid/encryption";
+import { Blocklist } from "@tnid/filter";
+import { run } from "../src/index.ts";
+
+const UserId = Tnid("user");
+const KEY_HEX = "0102030405060708090a0b0c0d0e0f10";
+
+/** Run the CLI, capturing its exit code and output lines. */
+async function tnid(
+  ...args: string[]
+): Promise<{ code: number; stdout: string[]; stderr: string[] }> {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const code = await run(args, {
+    stdout: (line) => stdout.push(line),
+    stderr: (line) => stderr.push(line),
+  });
+  return { code, stdout, stderr };
+}
+
+/** Parse `field: value` lines the way the Rust CLI test harness does. */
+function parseFields(lines: string[]): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const line of lines) {
+    const match = line.match(/^(\w+):\s*(.+)$/);
+    if (match) fields[match[1]] = match[2];
+  }
+  return fields;
+}
+
+// =============================================================================
+// inspect
+// =============================================================================
+
+Deno.test("cli: inspect prints Rust-compatible fields for V0", async () => {
+  const id = UserId.v0_from_parts(1_700_000_000_000n, 0xabcdefn);
+  const { code, stdout } = await tnid("inspect", id);
+
+  assertEquals(code, 0);
+  assertEquals(parseFields(stdout), {
+    tnid_string: id,
+    uuid_string: UserId.toUuidString(id),
+    name: "user",
+    name_hex: UserId.nameHex(),
+    variant: "V0",
+    timestamp_ms: "1700000000000",
+    timestamp: "2023-11-14T22:13:20.000Z",
+    random: "0xabcdef",
+  });
+});
+
+Deno.test("cli: inspect accepts UUIDs and V1", async () => {
+  const id = UserId.v1_from_parts(0x1234n);
+  const { code, stdout } = await tnid("inspect", UserId.toUuidString(id));
+
+  assertEquals(code, 0);
+  assertEquals(parseFields(stdout), {
+    tnid_string: id,
+    uuid_string: UserId.toUuidString(id),
+    name: "user",
+    name_hex: UserId.nameHex(),
+    variant: "V1",
+    random: "0x1234",
+  });
+});
+
+Deno.test("cli: inspect reports invalid TNIDs", async () => {
+  const { code, stdout, stderr } = await tnid("inspect", "user.nope");
+
+  assertEquals(code, 1);
+  assertEquals(stdout, []);
+  assertMatch(stderr[0], /^error: Invalid TNID/);
+});
+
+// =============================================================================
+// new
+// =============================================================================
+
+Deno.test("cli: new generates V0 and V1 TNIDs", async () => {
+  const v0 = await tnid("new", "v0", "user");
+  assertEquals(v0.code, 0);
+  assertEquals(v0.stdout.length, 1);
+  assertEquals(UserId.variant(UserId.parse(v0.stdout[0])), "v0");
+
+  const v1 = await tnid("new", "v1", "post", "--count", "3");
+  assertEquals(v1.code, 0);
+  assertEquals(v1.stdout.length, 3);
+  for (const id of v1.stdout) {
+    assertEquals(DynamicTnid.getName(DynamicTnid.parse(id)), "post");
+    assertEquals(DynamicTnid.getVariant(DynamicTnid.parse(id)), "v1");
+  }
+});
+
+Deno.test("cli: new rejects bad variants, names and counts", async () => {
+  assertEquals((await tnid("new", "v2", "user")).code, 2);
+  assertEquals((await tnid("new", "v0", "user", "-n", "0")).code, 2);
+  assertEquals((await tnid("new", "v0")).code, 2);
+
+  const badName = await tnid("new", "v0", "USER");
+  assertEquals(badName.code, 1);
+  assertMatch(badName.stderr[0], /Invalid TNID name/);
+});
+
+// =============================================================================
+// convert
+// =============================================================================
+
+Deno.test("cli: convert between TNID, UUID and hex", async () => {
+  const id = UserId.new_v0();
+  const uuid = UserId.toUuidString(id);
+  const hex = uuid.replace(/-/g, "");
+
+  assertEquals((await tnid("convert", id)).stdout, [uuid]);
+  assertEquals((await tnid("convert", uuid)).stdout, [id]);
+  assertEquals((await tnid("convert", hex)).stdout, [id]);
+  assertEquals((await tnid("convert", `0x${hex}`)).stdout, [id]);
+  assertEquals((await tnid("convert", id, "--to", "hex")).stdout, [hex]);
+  assertEquals((await tnid("convert", uuid, "-t", "uuid", "-u")).stdout, [
+    uuid.toUpperCase(),
+  ]);
+  assertEquals((await tnid("convert", id, "--to=tnid")).stdout, [id]);
+});
+
+Deno.test("cli: convert rejects unknown formats and invalid input", async () => {
+  const id = UserId.new_v0();
+  assertEquals((await tnid("convert", id, "--to", "base64")).code, 2);
+  assertEquals((await tnid("convert", "00".repeat(16))).code, 1);
+});
+
+// =============================================================================
+// encrypt / decrypt
+// =============================================================================
+
+Deno.test("cli: encrypt and decrypt round-trip", async () => {
+  const id = UserId.new_v0();
+  const encrypted = await tnid("encrypt", id, KEY_HEX);
+
+  assertEquals(encrypted.code, 0);
+  const v1 = UserId.parse(encrypted.stdout[0]);
+  assertEquals(UserId.variant(v1), "v1");
+  assertEquals(await decryptV1ToV0(v1, EncryptionKey.fromHex(KEY_HEX)), id);
+  assertEquals((await tnid("decrypt", v1, KEY_HEX)).stdout, [id]);
+});
+
+Deno.test("cli: encrypt passes the target variant through with -p", async () => {
+  const v1 = UserId.new_v1();
+
+  const rejected = await tnid("encrypt", v1, KEY_HEX);
+  assertEquals(rejected.code, 1);
+  assertMatch(rejected.stderr[0], /can only encrypt V0 TNIDs, got V1/);
+
+  assertEquals((await tnid("encrypt", "-p", v1, KEY_HEX)).stdout, [v1]);
+  const v0 = UserId.new_v0();
+  assertEquals((await tnid("decrypt", "--passthrough", v0, KEY_HEX)).stdout, [
+    v0,
+  ]);
+});
+
+Deno.test("cli: encrypt rejects invalid keys", async () => {
+  const { code, stderr } = await tnid("encrypt", UserId.new_v0(), "abcd");
+  assertEquals(code, 1);
+  assertMatch(stderr[0], /must be 32 characters/);
+});
+
+// =============================================================================
+// filter
+// =============================================================================
+
+Deno.test("cli: filter generates TNIDs without blocklisted words", async () => {
+  const blocklist = new Blocklist(["A", "B"]);
+  for (const variant of ["v0", "v1"]) {
+    const { code, stdout } = await tnid("filter", variant, "user", "A", "B");
+    assertEquals(code, 0);
+    const id = UserId.parse(stdout[0]);
+    assertEquals(blocklist.containsMatch(id.slice(id.indexOf(".") + 1)), false);
+  }
+});
+
+Deno.test("cli: filter with a key keeps the encrypted V1 clean", async () => {
+  const blocklist = new Blocklist(["A", "B"]);
+  const { code, stdout } = await tnid(
+    "filter",
+    "v0",
+    "user",
+    "A",
+    "B",
+    "--key",
+    KEY_HEX,
+    "-n",
+    "2",
+  );
+
+  assertEquals(code, 0);
+  assertEquals(stdout.length, 2);
+  for (const id of stdout) {
+    const encrypted = (await tnid("encrypt", id, KEY_HEX)).stdout[0];
+    for (const s of [id, encrypted]) {
+      assertEquals(blocklist.containsMatch(s.slice(s.indexOf(".") + 1)), false);
+    }
+  }
+});
+
+Deno.test("cli: filter rejects invalid words and keys for V1", async () => {
+  assertEquals((await tnid("filter", "v0", "user", "a b")).code, 2);
+  assertEquals((await tnid("filter", "v0", "user")).code, 2);
+  assertEquals(
+    (await tnid("filter", "v1", "user", "A", "--key", KEY_HEX)).code,
+    2,
+  );
+});
+
+// =============================================================================
+// usage
+// =============================================================================
+
+Deno.test("cli: help and usage errors", async () => {
+  for (const args of [[], ["help"], ["--help"]]) {
+    const { code, stdout } = await tnid(...args);
+    assertEquals(code, 0);
+    assertMatch(stdout[0], /^Usage: tnid <command>/);
+  }
+
+  const unknown = await tnid("frobnicate");
+  assertEquals(unknown.code, 2);
+  assertEquals(unknown.stderr, [
+    "error: unknown command: frobnicate",
+    "Run 'tnid help' for usage.",
+  ]);
+
+  assertEquals((await tnid("inspect", "--bogus")).code, 2);
+  assertEquals((await tnid("inspect", "a", "b")).code, 2);
+  assertEquals((await tnid("convert", "x", "--to")).code, 2);
+});
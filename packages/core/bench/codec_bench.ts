@@ -0,0 +1,148 @@
+// =============================================================================
+// Codec Benchmarks
+// Compares the word-based codec against the legacy BigInt codec and @tnid/wasm.
+//
+// Run with: deno task bench
+// The @tnid/wasm cases are skipped unless the WASM package has been built
+// (deno task build:wasm).
+// =============================================================================
+
+import { DynamicTnid, Tnid } from "../src/index.ts";
+import { decodeData, encodeData } from "../src/data_encoding.ts";
+import { bytesToUuidString, parseUuidStringToBytes } from "../src/uuid.ts";
+import { encodeName } from "../src/name_encoding.ts";
+import { bytesToWords, wordsToBytes } from "../src/bits.ts";
+import * as legacy from "./legacy_codec.ts";
+
+/** The subset of @tnid/wasm exercised here. */
+interface WasmModule {
+  init(): Promise<void>;
+  DynamicTnid: {
+    parse(s: string): string;
+    parseUuidString(uuid: string): string;
+    toUuidString(id: string): string;
+    new_v0(name: string): string;
+  };
+}
+
+async function loadWasm(): Promise<WasmModule | null> {
+  // Resolved at runtime so the suite type-checks without a WASM build
+  const specifier = new URL("../../wasm/src/index.ts", import.meta.url).href;
+  try {
+    const wasm: WasmModule = await import(specifier);
+    await wasm.init();
+    return wasm;
+  } catch {
+    console.warn("@tnid/wasm not built; skipping WASM benchmarks");
+    return null;
+  }
+}
+
+const wasm = await loadWasm();
+
+const UserId = Tnid("user");
+const nameBits = encodeName("user");
+const id = UserId.new_v0();
+const data = id.substring(id.indexOf(".") + 1);
+const bytes = UserId.toBytes(id);
+const uuid = UserId.toUuidString(id);
+
+// -----------------------------------------------------------------------------
+// Data encoding
+// -----------------------------------------------------------------------------
+
+Deno.bench("encodeData (core)", { group: "encode", baseline: true }, () => {
+  encodeData(bytesToWords(bytes));
+});
+
+Deno.bench("encodeData (legacy bigint)", { group: "encode" }, () => {
+  legacy.encodeData(bytes);
+});
+
+Deno.bench("decodeData (core)", { group: "decode", baseline: true }, () => {
+  wordsToBytes(decodeData(data, nameBits));
+});
+
+Deno.bench("decodeData (legacy bigint)", { group: "decode" }, () => {
+  legacy.decodeData(data, nameBits);
+});
+
+// -----------------------------------------------------------------------------
+// UUID hex
+// -----------------------------------------------------------------------------
+
+Deno.bench(
+  "bytesToUuidString (core)",
+  { group: "uuid format", baseline: true },
+  () => {
+    bytesToUuidString(bytes);
+  },
+);
+
+Deno.bench("bytesToUuidString (legacy bigint)", {
+  group: "uuid format",
+}, () => {
+  legacy.bytesToUuidString(bytes);
+});
+
+Deno.bench(
+  "parseUuidStringToBytes (core)",
+  { group: "uuid parse", baseline: true },
+  () => {
+    parseUuidStringToBytes(uuid);
+  },
+);
+
+Deno.bench("parseUuidStringToBytes (legacy bigint)", {
+  group: "uuid parse",
+}, () => {
+  legacy.parseUuidStringToBytes(uuid);
+});
+
+// -----------------------------------------------------------------------------
+// Public API, end to end
+// -----------------------------------------------------------------------------
+
+Deno.bench("new_v0 (core)", { group: "new_v0", baseline: true }, () => {
+  DynamicTnid.newV0("user");
+});
+
+Deno.bench("new_v0 (wasm)", { group: "new_v0", ignore: !wasm }, () => {
+  wasm!.DynamicTnid.new_v0("user");
+});
+
+Deno.bench("parse (core)", { group: "parse", baseline: true }, () => {
+  DynamicTnid.parse(id);
+});
+
+Deno.bench("parse (wasm)", { group: "parse", ignore: !wasm }, () => {
+  wasm!.DynamicTnid.parse(id);
+});
+
+Deno.bench(
+  "toUuidString (core)",
+  { group: "to uuid", baseline: true },
+  () => {
+    DynamicTnid.toUuidString(id);
+  },
+);
+
+Deno.bench("toUuidString (wasm)", { group: "to uuid", ignore: !wasm }, () => {
+  wasm!.DynamicTnid.toUuidString(id);
+});
+
+Deno.bench(
+  "parseUuidString (core)",
+  { group: "from uuid", baseline: true },
+  () => {
+    DynamicTnid.parseUuidString(uuid);
+  },
+);
+
+Deno.bench(
+  "parseUuidString (wasm)",
+  { group: "from uuid", ignore: !wasm },
+  () => {
+    wasm!.DynamicTnid.parseUuidString(uuid);
+  },
+);
@@ -0,0 +1,104 @@
+// =============================================================================
+// Legacy BigInt Codec
+// Snapshot of the original BigInt-based encode/decode, kept only as a baseline
+// for codec_bench.ts. Not part of the published package.
+// =============================================================================
+
+const DATA_CHAR_TO_VALUE: Record<string, number> = {};
+const DATA_VALUE_TO_CHAR: string[] = [];
+
+const DATA_ENCODING_ORDER =
+  "-0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ_abcdefghijklmnopqrstuvwxyz";
+for (let i = 0; i < DATA_ENCODING_ORDER.length; i++) {
+  const char = DATA_ENCODING_ORDER[i];
+  DATA_CHAR_TO_VALUE[char] = i;
+  DATA_VALUE_TO_CHAR[i] = char;
+}
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Encode a 16-byte TNID value as a 17-character data string. */
+export function encodeData(bytes: Uint8Array): string {
+  let value = 0n;
+  for (const byte of bytes) {
+    value = (value << 8n) | BigInt(byte);
+  }
+
+  const payloadA = (value >> 80n) & ((1n << 28n) - 1n);
+  const payloadB = (value >> 64n) & ((1n << 12n) - 1n);
+  const tnidVariant = (value >> 60n) & 0b11n;
+  const payloadC = value & ((1n << 60n) - 1n);
+
+  const dataBits = (payloadA << 74n) | (payloadB << 62n) |
+    (tnidVariant << 60n) | payloadC;
+
+  let result = "";
+  for (let i = 16; i >= 0; i--) {
+    const charValue = Number((dataBits >> BigInt(i * 6)) & 0x3fn);
+    result += DATA_VALUE_TO_CHAR[charValue];
+  }
+  return result;
+}
+
+/** Decode a 17-character data string to the full 16-byte TNID value. */
+export function decodeData(encoded: string, nameBits: number): Uint8Array {
+  if (encoded.length !== 17) {
+    throw new Error(`Invalid data length: expected 17, got ${encoded.length}`);
+  }
+
+  let dataBits = 0n;
+  for (let i = 0; i < 17; i++) {
+    const value = DATA_CHAR_TO_VALUE[encoded[i]];
+    if (value === undefined) {
+      throw new Error(`Invalid data character: ${encoded[i]}`);
+    }
+    dataBits = (dataBits << 6n) | BigInt(value);
+  }
+
+  const payloadA = (dataBits >> 74n) & ((1n << 28n) - 1n);
+  const payloadB = (dataBits >> 62n) & ((1n << 12n) - 1n);
+  const tnidVariant = (dataBits >> 60n) & 0b11n;
+  const payloadC = dataBits & ((1n << 60n) - 1n);
+
+  let value = BigInt(nameBits);
+  value = (value << 28n) | payloadA;
+  value = (value << 4n) | 0x8n;
+  value = (value << 12n) | payloadB;
+  value = (value << 2n) | 0b10n;
+  value = (value << 2n) | tnidVariant;
+  value = (value << 60n) | payloadC;
+
+  const bytes = new Uint8Array(16);
+  for (let i = 15; i >= 0; i--) {
+    bytes[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  return bytes;
+}
+
+/** Convert a 16-byte value to UUID hex string format. */
+export function bytesToUuidString(bytes: Uint8Array): string {
+  let value = 0n;
+  for (const byte of bytes) {
+    value = (value << 8n) | BigInt(byte);
+  }
+  const hex = value.toString(16).padStart(32, "0");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${
+    hex.slice(16, 20)
+  }-${hex.slice(20)}`;
+}
+
+/** Parse a UUID hex string to a 16-byte value. */
+export function parseUuidStringToBytes(uuid: string): Uint8Array {
+  if (!UUID_REGEX.test(uuid)) {
+    throw new Error(`Invalid UUID format: ${uuid}`);
+  }
+  let value = BigInt("0x" + uuid.replace(/-/g, ""));
+  const bytes = new Uint8Array(16);
+  for (let i = 15; i >= 0; i--) {
+    bytes[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  return bytes;
+}
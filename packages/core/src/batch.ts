@@ -0,0 +1,110 @@
+// =============================================================================
+// Batch Generation
+// Bulk TNID generation that draws entropy in large chunks
+// =============================================================================
+
+import type { Words } from "./bits.ts";
+import {
+  buildV0Words,
+  buildV1Words,
+  generateV0,
+  generateV1,
+  toTimestamp43,
+} from "./bits.ts";
+import { crypto } from "./crypto.ts";
+import { encodeData } from "./data_encoding.ts";
+import type { MonotonicV0State } from "./monotonic.ts";
+import type { TnidOptions } from "./source.ts";
+import { isSystemRandom, resolveSource } from "./source.ts";
+
+// crypto.getRandomValues fills at most 65536 bytes per call
+const POOL_WORDS = 65536 / 4;
+
+/** Random 32-bit words, refilled from the Web Crypto API one chunk at a time. */
+class RandomWordPool {
+  private readonly words = new Uint32Array(POOL_WORDS);
+  private index = POOL_WORDS;
+
+  next(): number {
+    if (this.index === POOL_WORDS) {
+      crypto.getRandomValues(this.words);
+      this.index = 0;
+    }
+    return this.words[this.index++];
+  }
+}
+
+// Shared by all batches, so small batches still amortize the refill. Only
+// used with the Web Crypto API; other sources are read per ID so that their
+// output does not depend on how IDs were batched.
+const pool = new RandomWordPool();
+
+/**
+ * Lazily generate V0 TNID strings. With a `MonotonicV0State`, each ID sorts
+ * strictly after the previous one issued from that state.
+ */
+function* iterV0Impl(
+  name: string,
+  nameBits: number,
+  options?: TnidOptions,
+  monotonic?: MonotonicV0State,
+): Generator<string, never, undefined> {
+  while (true) {
+    const source = resolveSource(options);
+    let words: Words;
+    if (monotonic) {
+      const { timestampMs, randomBits } = monotonic.next();
+      words = generateV0(nameBits, timestampMs, randomBits);
+    } else if (isSystemRandom(source)) {
+      words = buildV0Words(
+        nameBits,
+        toTimestamp43(source.clock()),
+        pool.next(),
+        pool.next(),
+      );
+    } else {
+      words = generateV0(nameBits, undefined, undefined, source);
+    }
+    yield `${name}.${encodeData(words)}`;
+  }
+}
+
+/** Lazily generate V1 TNID strings. */
+function* iterV1Impl(
+  name: string,
+  nameBits: number,
+  options?: TnidOptions,
+): Generator<string, never, undefined> {
+  while (true) {
+    const source = resolveSource(options);
+    let words: Words;
+    if (isSystemRandom(source)) {
+      words = buildV1Words(
+        nameBits,
+        pool.next(),
+        pool.next(),
+        pool.next(),
+        pool.next(),
+      );
+    } else {
+      words = generateV1(nameBits, undefined, source);
+    }
+    yield `${name}.${encodeData(words)}`;
+  }
+}
+
+/** Collect the next `count` values of an iterator into an array. */
+function takeImpl<T>(iter: Iterator<T>, count: number): T[] {
+  if (!Number.isSafeInteger(count) || count < 0) {
+    throw new Error(
+      `Invalid batch size: ${count}. Must be a non-negative integer`,
+    );
+  }
+  const result = new Array<T>(count);
+  for (let i = 0; i < count; i++) {
+    result[i] = iter.next().value;
+  }
+  return result;
+}
+
+export { iterV0Impl, iterV1Impl, takeImpl };
@@ -3,7 +3,8 @@
 // Mask-based approach matching Rust implementation
 // =============================================================================
 
-import { crypto } from "./crypto.ts";
+import type { TnidSource } from "./source.ts";
+import { resolveSource } from "./source.ts";
 
 // Masks for UUID version 8 and variant bits
 export const UUID_V8_MASK = 0x00000000_0000_8000_8000_000000000000n;
@@ -51,6 +52,25 @@ export function millisMask(millisSinceEpoch: bigint): bigint {
   return mask;
 }
 
+/** Gather the 43-bit timestamp back out of a 128-bit V0 ID (inverse of millisMask) */
+export function extractMillis(value: bigint): bigint {
+  let millis = 0n;
+
+  const first28LeadingZeros = 64n - 43n;
+  millis |= (value >> (first28LeadingZeros + 64n - 20n)) &
+    TIMESTAMP_FIRST_28_MASK;
+
+  const second12LeadingZeros = 64n - 15n;
+  millis |= (value >> (second12LeadingZeros + 64n - 52n)) &
+    TIMESTAMP_SECOND_12_MASK;
+
+  const last3LeadingZeros = 64n - 3n;
+  millis |= (value >> (last3LeadingZeros + 64n - 68n)) &
+    TIMESTAMP_LAST_3_MASK;
+
+  return millis;
+}
+
 /** Build a 128-bit TNID value using mask-based OR operations */
 export function buildTnidValue(
   nameBits: number,
@@ -60,57 +80,200 @@ export function buildTnidValue(
   return nameMask(nameBits) | uuidAndVariantMask(tnidVariant) | payloadMask;
 }
 
-/** Convert 128-bit value to byte array */
-export function valueToBytes(value: bigint): Uint8Array {
+// Payload sections: bits 0-59 (60 bits), 64-75 (12 bits) and 80-107 (28 bits)
+const PAYLOAD_RIGHT_MASK = 0x00000000_0000_0000_0fff_ffffffffffffn;
+const PAYLOAD_MIDDLE_MASK = 0x00000000_0000_0fff_0000_000000000000n;
+const PAYLOAD_LEFT_MASK = 0x00000fff_ffff_0000_0000_000000000000n;
+
+/** Compact the 100 payload bits of a 128-bit ID into the lowest 100 bits */
+export function extractPayloadBits(value: bigint): bigint {
+  return (value & PAYLOAD_RIGHT_MASK) |
+    ((value & PAYLOAD_MIDDLE_MASK) >> 4n) |
+    ((value & PAYLOAD_LEFT_MASK) >> 8n);
+}
+
+/** Scatter 100 compacted payload bits into their positions (inverse of extractPayloadBits) */
+export function expandPayloadBits(bits: bigint): bigint {
+  return (bits & PAYLOAD_RIGHT_MASK) |
+    ((bits & (PAYLOAD_MIDDLE_MASK >> 4n)) << 4n) |
+    ((bits & (PAYLOAD_LEFT_MASK >> 8n)) << 8n);
+}
+
+/** A 128-bit value as four big-endian 32-bit words, most significant first */
+export type Words = [number, number, number, number];
+
+/** Read the big-endian 32-bit word starting at byte `i` */
+function readWord(bytes: Uint8Array, i: number): number {
+  return ((bytes[i] << 24) | (bytes[i + 1] << 16) | (bytes[i + 2] << 8) |
+    bytes[i + 3]) >>> 0;
+}
+
+/** Split a 16-byte array into 32-bit words */
+export function bytesToWords(bytes: Uint8Array): Words {
+  return [
+    readWord(bytes, 0),
+    readWord(bytes, 4),
+    readWord(bytes, 8),
+    readWord(bytes, 12),
+  ];
+}
+
+/** Pack 32-bit words into a 16-byte array */
+export function wordsToBytes(words: Words): Uint8Array {
   const bytes = new Uint8Array(16);
-  let v = value;
-  for (let i = 15; i >= 0; i--) {
-    bytes[i] = Number(v & 0xffn);
-    v >>= 8n;
+  for (let i = 0; i < 4; i++) {
+    const word = words[i];
+    bytes[i * 4] = word >>> 24;
+    bytes[i * 4 + 1] = word >>> 16;
+    bytes[i * 4 + 2] = word >>> 8;
+    bytes[i * 4 + 3] = word;
   }
   return bytes;
 }
 
-/** Generate a V0 (time-ordered) TNID as bytes */
+/** Split a 128-bit value into 32-bit words */
+export function valueToWords(value: bigint): Words {
+  return [
+    Number(BigInt.asUintN(32, value >> 96n)),
+    Number(BigInt.asUintN(32, value >> 64n)),
+    Number(BigInt.asUintN(32, value >> 32n)),
+    Number(BigInt.asUintN(32, value)),
+  ];
+}
+
+/** Convert 128-bit value to byte array */
+export function valueToBytes(value: bigint): Uint8Array {
+  return wordsToBytes(valueToWords(value));
+}
+
+/** Convert byte array to 128-bit value */
+export function bytesToValue(bytes: Uint8Array): bigint {
+  const [w0, w1, w2, w3] = bytesToWords(bytes);
+  return (BigInt(w0) << 96n) | (BigInt(w1) << 64n) | (BigInt(w2) << 32n) |
+    BigInt(w3);
+}
+
+/** Draw `byteLength` random bytes as a big-endian bigint */
+export function randomBigInt(
+  byteLength: number,
+  source: TnidSource = resolveSource(),
+): bigint {
+  const randomBytes = new Uint8Array(byteLength);
+  source.random(randomBytes);
+  let random = 0n;
+  for (const byte of randomBytes) {
+    random = (random << 8n) | BigInt(byte);
+  }
+  return random;
+}
+
+// Generation works on 32-bit words so the common path (no explicit parts)
+// never touches BigInt. Word layout:
+//   w0 = name(20) | payload(12)
+//   w1 = payload(16) | uuid version(4) | payload(12)
+//   w2 = uuid variant(2) | tnid variant(2) | payload(28)
+//   w3 = payload(32)
+const UUID_VERSION_WORD_BITS = 0x00008000;
+const UUID_VARIANT_WORD_BITS = 0x80000000;
+const TIMESTAMP_LOW_SPAN = 2 ** 15; // low 15 bits: 12 in w1, 3 in w2
+
+// Reused for every draw to avoid a typed array allocation per ID. Random
+// bytes are always read big-endian, so a given byte stream yields the same
+// IDs on every platform.
+const randomBytes8 = new Uint8Array(8);
+const randomBytes16 = new Uint8Array(16);
+
+/** Reduce a clock reading to the 43-bit V0 timestamp range */
+export function toTimestamp43(ms: number): number {
+  const span = 2 ** 43;
+  return ((Math.floor(ms) % span) + span) % span;
+}
+
+/**
+ * Assemble V0 words from a 43-bit timestamp (as a number) and 57 random bits
+ * split into their high 25 and low 32 bits.
+ */
+export function buildV0Words(
+  nameBits: number,
+  timestampMs: number,
+  randomHigh: number,
+  randomLow: number,
+): Words {
+  const tsHigh = Math.floor(timestampMs / TIMESTAMP_LOW_SPAN); // 28 bits
+  const tsLow = timestampMs % TIMESTAMP_LOW_SPAN; // 15 bits
+
+  return [
+    ((nameBits << 12) | (tsHigh >>> 16)) >>> 0,
+    (((tsHigh & 0xffff) << 16) | UUID_VERSION_WORD_BITS | (tsLow >>> 3)) >>> 0,
+    (UUID_VARIANT_WORD_BITS | ((tsLow & 0b111) << 25) |
+      (randomHigh & 0x01ffffff)) >>> 0,
+    randomLow >>> 0,
+  ];
+}
+
+/** Assemble V1 words from 128 random bits, keeping those in V1_RANDOM_MASK */
+export function buildV1Words(
+  nameBits: number,
+  r0: number,
+  r1: number,
+  r2: number,
+  r3: number,
+): Words {
+  return [
+    ((nameBits << 12) | (r0 & 0x00000fff)) >>> 0,
+    ((r1 & 0xffff0fff) | UUID_VERSION_WORD_BITS) >>> 0,
+    ((r2 & 0x0fffffff) | UUID_VARIANT_WORD_BITS | 0x10000000) >>> 0,
+    r3 >>> 0,
+  ];
+}
+
+/**
+ * Generate a V0 (time-ordered) TNID as words. Parts that are not given are
+ * drawn from `source`.
+ */
 export function generateV0(
   nameBits: number,
   timestampMs?: bigint,
   randomBits?: bigint,
-): Uint8Array {
-  const timestamp = timestampMs !== undefined
-    ? timestampMs & ((1n << 43n) - 1n)
-    : BigInt(Date.now()) & ((1n << 43n) - 1n);
+  source: TnidSource = resolveSource(),
+): Words {
+  // 43-bit timestamp, kept as a (lossless) double
+  const ms = timestampMs !== undefined
+    ? Number(BigInt.asUintN(43, timestampMs))
+    : toTimestamp43(source.clock());
 
-  let random: bigint;
   if (randomBits !== undefined) {
-    random = randomBits;
-  } else {
-    const randomBytes = crypto.getRandomValues(new Uint8Array(8));
-    random = 0n;
-    for (const byte of randomBytes) {
-      random = (random << 8n) | BigInt(byte);
-    }
+    return buildV0Words(
+      nameBits,
+      ms,
+      Number(BigInt.asUintN(25, randomBits >> 32n)),
+      Number(BigInt.asUintN(32, randomBits)),
+    );
   }
-
-  const payloadMask = millisMask(timestamp) | (random & V0_RANDOM_MASK);
-  const value = buildTnidValue(nameBits, payloadMask, 0b00n);
-  return valueToBytes(value);
+  source.random(randomBytes8);
+  return buildV0Words(
+    nameBits,
+    ms,
+    readWord(randomBytes8, 0),
+    readWord(randomBytes8, 4),
+  );
 }
 
-/** Generate a V1 (high-entropy random) TNID as bytes */
-export function generateV1(nameBits: number, randomBits?: bigint): Uint8Array {
-  let random: bigint;
+/**
+ * Generate a V1 (high-entropy random) TNID as words. If `randomBits` is not
+ * given, it is drawn from `source`.
+ */
+export function generateV1(
+  nameBits: number,
+  randomBits?: bigint,
+  source: TnidSource = resolveSource(),
+): Words {
+  let random: Words;
   if (randomBits !== undefined) {
-    random = randomBits;
+    random = valueToWords(randomBits);
   } else {
-    const randomBytes = crypto.getRandomValues(new Uint8Array(16));
-    random = 0n;
-    for (const byte of randomBytes) {
-      random = (random << 8n) | BigInt(byte);
-    }
+    source.random(randomBytes16);
+    random = bytesToWords(randomBytes16);
   }
-
-  const payloadMask = random & V1_RANDOM_MASK;
-  const value = buildTnidValue(nameBits, payloadMask, 0b01n);
-  return valueToBytes(value);
+  return buildV1Words(nameBits, random[0], random[1], random[2], random[3]);
 }
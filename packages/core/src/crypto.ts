@@ -15,4 +15,8 @@ if (!_crypto || typeof _crypto.getRandomValues !== "function") {
 
 export const crypto = _crypto as {
   getRandomValues<T extends ArrayBufferView>(array: T): T;
+  /** Missing in insecure browser contexts (plain HTTP). */
+  subtle?: {
+    digest(algorithm: string, data: Uint8Array): Promise<ArrayBuffer>;
+  };
 };
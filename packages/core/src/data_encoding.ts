@@ -3,15 +3,20 @@
 // 64 characters in order: - 0-9 A-Z _ a-z
 // =============================================================================
 
-const DATA_CHAR_TO_VALUE: Record<string, number> = {};
-const DATA_VALUE_TO_CHAR: string[] = [];
+import type { Words } from "./bits.ts";
+import { TnidParseErrorCode, TnidParseIssue } from "./errors.ts";
 
-const DATA_ENCODING_ORDER =
+/** The 64 data characters, indexed by their 6-bit value. */
+export const DATA_ENCODING_ORDER =
   "-0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ_abcdefghijklmnopqrstuvwxyz";
+
+// Lookup tables indexed by 6-bit value / ASCII char code (-1 = not in alphabet)
+const DATA_VALUE_TO_CHAR_CODE = new Uint8Array(64);
+const DATA_CHAR_CODE_TO_VALUE = new Int8Array(128).fill(-1);
 for (let i = 0; i < DATA_ENCODING_ORDER.length; i++) {
-  const char = DATA_ENCODING_ORDER[i];
-  DATA_CHAR_TO_VALUE[char] = i;
-  DATA_VALUE_TO_CHAR[i] = char;
+  const code = DATA_ENCODING_ORDER.charCodeAt(i);
+  DATA_VALUE_TO_CHAR_CODE[i] = code;
+  DATA_CHAR_CODE_TO_VALUE[code] = i;
 }
 
 /** Number of characters in the encoded data portion of a TNID string. */
@@ -29,106 +34,103 @@ export const DATA_CHAR_ENCODING_LEN = 17;
 //   Bits 68-127: Payload C (60 bits)
 //
 // Data bits = PayloadA(28) + PayloadB(12) + TNIDVariant(2) + PayloadC(60) = 102 bits
+//
+// Both directions work on the four 32-bit words of the value (see bits.ts), so
+// no BigInt arithmetic is needed:
+//   w0 = name(20) | A[0..11]
+//   w1 = A[12..27] | version(4) | B(12)
+//   w2 = uuid variant(2) | tnid variant(2) | C[0..27]
+//   w3 = C[28..59]
 
 /**
- * Encode a 16-byte TNID value as a 17-character data string.
+ * Encode a TNID value as a 17-character data string.
  */
-export function encodeData(bytes: Uint8Array): string {
-  // Convert bytes to BigInt (MSB first)
-  let value = 0n;
-  for (const byte of bytes) {
-    value = (value << 8n) | BigInt(byte);
-  }
-
-  // Extract the parts (positions from LSB = 127 - MSB_position)
-  // MSB bits 20-47 = LSB bits 80-107 (28 bits)
-  const payloadA = (value >> 80n) & ((1n << 28n) - 1n);
-
-  // MSB bits 52-63 = LSB bits 64-75 (12 bits)
-  const payloadB = (value >> 64n) & ((1n << 12n) - 1n);
-
-  // MSB bits 66-67 = LSB bits 60-61 (2 bits)
-  const tnidVariant = (value >> 60n) & 0b11n;
-
-  // MSB bits 68-127 = LSB bits 0-59 (60 bits)
-  const payloadC = value & ((1n << 60n) - 1n);
-
-  // Combine into 102 data bits: A(28) + B(12) + variant(2) + C(60)
-  const dataBits = (payloadA << 74n) | (payloadB << 62n) |
-    (tnidVariant << 60n) | payloadC;
-
-  // Encode as 17 6-bit characters
-  let result = "";
-  for (let i = 16; i >= 0; i--) {
-    const charValue = Number((dataBits >> BigInt(i * 6)) & 0x3fn);
-    result += DATA_VALUE_TO_CHAR[charValue];
-  }
-
-  return result;
+export function encodeData([w0, w1, w2, w3]: Words): string {
+  const payloadA = ((w0 & 0xfff) << 16) | (w1 >>> 16); // 28 bits
+  const payloadB = w1 & 0xfff; // 12 bits
+  const variantAndC = w2 & 0x3fffffff; // tnid variant(2) + C[0..27]
+
+  const t = DATA_VALUE_TO_CHAR_CODE;
+  return String.fromCharCode(
+    t[payloadA >>> 22],
+    t[(payloadA >>> 16) & 0x3f],
+    t[(payloadA >>> 10) & 0x3f],
+    t[(payloadA >>> 4) & 0x3f],
+    t[((payloadA & 0xf) << 2) | (payloadB >>> 10)],
+    t[(payloadB >>> 4) & 0x3f],
+    t[((payloadB & 0xf) << 2) | (variantAndC >>> 28)],
+    t[(variantAndC >>> 22) & 0x3f],
+    t[(variantAndC >>> 16) & 0x3f],
+    t[(variantAndC >>> 10) & 0x3f],
+    t[(variantAndC >>> 4) & 0x3f],
+    t[((variantAndC & 0xf) << 2) | (w3 >>> 30)],
+    t[(w3 >>> 24) & 0x3f],
+    t[(w3 >>> 18) & 0x3f],
+    t[(w3 >>> 12) & 0x3f],
+    t[(w3 >>> 6) & 0x3f],
+    t[w3 & 0x3f],
+  );
 }
 
 /**
- * Decode a 17-character data string to data bits and TNID variant.
+ * Decode a 17-character data string to the full TNID value, filling in the
+ * given name bits and the UUIDv8 version/variant bits.
+ *
+ * `offset` is the index of the data string within the full input, and is only
+ * used to report error positions.
+ *
+ * @throws TnidParseError if the data string is invalid
  */
 export function decodeData(
   encoded: string,
-): { dataBits: bigint; tnidVariant: number } {
+  nameBits: number,
+  offset: number = 0,
+): Words {
+  const words = tryDecodeData(encoded, nameBits, offset);
+  if (words instanceof TnidParseIssue) throw words.toError();
+  return words;
+}
+
+/** Like `decodeData`, but returns a `TnidParseIssue` instead of throwing. */
+export function tryDecodeData(
+  encoded: string,
+  nameBits: number,
+  offset: number = 0,
+): Words | TnidParseIssue {
   if (encoded.length !== DATA_CHAR_ENCODING_LEN) {
-    throw new Error(
+    return new TnidParseIssue(
+      TnidParseErrorCode.BAD_LENGTH,
       `Invalid data length: expected ${DATA_CHAR_ENCODING_LEN}, got ${encoded.length}`,
     );
   }
 
-  let dataBits = 0n;
-  for (let i = 0; i < 17; i++) {
-    const char = encoded[i];
-    const value = DATA_CHAR_TO_VALUE[char];
-    if (value === undefined) {
-      throw new Error(`Invalid data character: ${char}`);
+  const v = new Array<number>(DATA_CHAR_ENCODING_LEN);
+  for (let i = 0; i < DATA_CHAR_ENCODING_LEN; i++) {
+    const code = encoded.charCodeAt(i);
+    const value = code < 128 ? DATA_CHAR_CODE_TO_VALUE[code] : -1;
+    if (value < 0) {
+      const char = encoded[i];
+      return new TnidParseIssue(
+        TnidParseErrorCode.BAD_DATA_CHAR,
+        `Invalid data character: ${char}`,
+        { position: offset + i, character: char },
+      );
     }
-    dataBits = (dataBits << 6n) | BigInt(value);
-  }
-
-  // Extract TNID variant (bits 60-61 from the right of the 102-bit value)
-  const tnidVariant = Number((dataBits >> 60n) & 0b11n);
-
-  return { dataBits, tnidVariant };
-}
-
-/**
- * Convert data bits back to a 16-byte array.
- */
-export function dataBitsToBytes(
-  dataBits: bigint,
-  nameBits: number,
-): Uint8Array {
-  // Reconstruct the full 128-bit value from 102 data bits
-  // Data bits layout: payloadA(28) + payloadB(12) + tnid_var(2) + payloadC(60) = 102 bits
-  //
-  // 128-bit layout:
-  //   name(20) + payloadA(28) + uuid_ver(4) + payloadB(12) + uuid_var(2) + tnid_var(2) + payloadC(60)
-
-  // Extract from dataBits (102 bits total):
-  const payloadA = (dataBits >> 74n) & ((1n << 28n) - 1n); // bits 74-101
-  const payloadB = (dataBits >> 62n) & ((1n << 12n) - 1n); // bits 62-73
-  const tnidVariant = (dataBits >> 60n) & 0b11n; // bits 60-61
-  const payloadC = dataBits & ((1n << 60n) - 1n); // bits 0-59
-
-  // Reconstruct 128-bit value
-  let value = BigInt(nameBits);
-  value = (value << 28n) | payloadA;
-  value = (value << 4n) | 0x8n; // UUID version 8
-  value = (value << 12n) | payloadB;
-  value = (value << 2n) | 0b10n; // UUID variant
-  value = (value << 2n) | tnidVariant;
-  value = (value << 60n) | payloadC;
-
-  // Convert to bytes
-  const bytes = new Uint8Array(16);
-  for (let i = 15; i >= 0; i--) {
-    bytes[i] = Number(value & 0xffn);
-    value >>= 8n;
+    v[i] = value;
   }
 
-  return bytes;
+  const payloadA = (v[0] << 22) | (v[1] << 16) | (v[2] << 10) | (v[3] << 4) |
+    (v[4] >>> 2);
+  const payloadB = ((v[4] & 0b11) << 10) | (v[5] << 4) | (v[6] >>> 2);
+  const variantAndC = ((v[6] & 0b11) << 28) | (v[7] << 22) | (v[8] << 16) |
+    (v[9] << 10) | (v[10] << 4) | (v[11] >>> 2);
+  const w3 = ((v[11] & 0b11) << 30) | (v[12] << 24) | (v[13] << 18) |
+    (v[14] << 12) | (v[15] << 6) | v[16];
+
+  return [
+    ((nameBits << 12) | (payloadA >>> 16)) >>> 0,
+    (((payloadA & 0xffff) << 16) | 0x8000 | payloadB) >>> 0, // UUID version 8
+    (0x80000000 | variantAndC) >>> 0, // UUID variant
+    w3 >>> 0,
+  ];
 }
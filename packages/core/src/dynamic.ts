@@ -2,35 +2,83 @@
 // DynamicTnid - Runtime name validation
 // =============================================================================
 
-import type { Case, TnidValue, TnidVariant } from "./types.ts";
+import type {
+  Case,
+  ParseResult,
+  TnidBound,
+  TnidInspection,
+  TnidRange,
+  TnidValue,
+  TnidVariant,
+  V0BatchOptions,
+} from "./types.ts";
+import {
+  decodePayloadImpl,
+  encodePayloadImpl,
+  type TnidPayload,
+  type TnidPayloadVariant,
+} from "./payload.ts";
 
 /** A TNID that can hold any name. Use for generic functions. */
 export type DynamicTnid = TnidValue<string>;
 import {
-  decodeName,
+  checkValidNameRuntime,
   encodeName,
   isValidNameRuntime,
   NAME_MAX_CHARS,
   NAME_MIN_CHARS,
+  tryDecodeName,
 } from "./name_encoding.ts";
 import {
   DATA_CHAR_ENCODING_LEN,
-  dataBitsToBytes,
   decodeData,
   encodeData,
+  tryDecodeData,
 } from "./data_encoding.ts";
-import { generateV0, generateV1 } from "./bits.ts";
 import {
-  extractNameBitsFromValue,
+  buildTnidValue,
+  bytesToValue,
+  extractMillis,
+  generateV0,
+  generateV1,
+  V0_RANDOM_MASK,
+  V1_RANDOM_MASK,
+  valueToBytes,
+  valueToWords,
+  wordsToBytes,
+} from "./bits.ts";
+import {
+  TnidParseError,
+  TnidParseErrorCode,
+  TnidParseIssue,
+  TnidVariantError,
+} from "./errors.ts";
+import { MonotonicV0State } from "./monotonic.ts";
+import { iterV0Impl, iterV1Impl, takeImpl } from "./batch.ts";
+import {
+  standardSchemaImpl,
+  type StandardSchemaV1Props,
+  type TnidStandardSchemaIssue,
+} from "./standard_schema.ts";
+import {
+  bytesToUuidString,
+  extractNameBitsFromBytes,
+  extractVariantFromValue,
   parseUuidStringToValue,
-  validateUuidBits,
-  valueToTnidString,
-  valueToUuidString,
+  tnidStringFromBytes,
+  tryParseUuidStringToBytes,
+  validateUuidBytes,
+  wordsToUuidString,
 } from "./uuid.ts";
 
 const MIN_TNID_LEN = NAME_MIN_CHARS + 1 + DATA_CHAR_ENCODING_LEN;
 const MAX_TNID_LEN = NAME_MAX_CHARS + 1 + DATA_CHAR_ENCODING_LEN;
 const UUID_LEN = 36;
+const MAX_TIMESTAMP_MS = (1n << 43n) - 1n;
+const MAX_VALUE = (1n << 128n) - 1n;
+
+// Shared by all names, so monotonic DynamicTnids are strictly ordered globally
+const monotonic = new MonotonicV0State();
 
 // -----------------------------------------------------------------------------
 // Internal Helper Functions
@@ -39,18 +87,24 @@ const UUID_LEN = 36;
 function getTnidVariantImpl(id: DynamicTnid): TnidVariant {
   const dotIndex = id.indexOf(".");
   if (dotIndex === -1) {
-    throw new Error("Invalid TNID: missing separator");
+    throw new TnidParseError(
+      TnidParseErrorCode.BAD_SEPARATOR,
+      "Invalid TNID: missing separator",
+    );
   }
   const dataEncoded = id.substring(dotIndex + 1);
-  const { tnidVariant } = decodeData(dataEncoded);
+  const [, , w2] = decodeData(dataEncoded, 0, dotIndex + 1);
   const variants: TnidVariant[] = ["v0", "v1", "v2", "v3"];
-  return variants[tnidVariant];
+  return variants[(w2 >>> 28) & 0b11];
 }
 
 function getTnidNameImpl(id: DynamicTnid): string {
   const dotIndex = id.indexOf(".");
   if (dotIndex === -1) {
-    throw new Error("Invalid TNID: missing separator");
+    throw new TnidParseError(
+      TnidParseErrorCode.BAD_SEPARATOR,
+      "Invalid TNID: missing separator",
+    );
   }
   return id.substring(0, dotIndex);
 }
@@ -62,70 +116,334 @@ function getNameHexImpl(id: DynamicTnid): string {
   return nameBits.toString(16).padStart(5, "0");
 }
 
-function toUuidStringImpl(id: DynamicTnid, upperCase: boolean = false): string {
+function toBytesImpl(id: DynamicTnid): Uint8Array {
   const dotIndex = id.indexOf(".");
   if (dotIndex === -1) {
-    throw new Error("Invalid TNID: missing separator");
+    throw new TnidParseError(
+      TnidParseErrorCode.BAD_SEPARATOR,
+      "Invalid TNID: missing separator",
+    );
   }
 
   const name = id.substring(0, dotIndex);
   const dataEncoded = id.substring(dotIndex + 1);
 
   const nameBits = encodeName(name);
-  const { dataBits } = decodeData(dataEncoded);
-  const bytes = dataBitsToBytes(dataBits, nameBits);
+  return wordsToBytes(decodeData(dataEncoded, nameBits, dotIndex + 1));
+}
+
+function toValueImpl(id: DynamicTnid): bigint {
+  return bytesToValue(toBytesImpl(id));
+}
 
-  let value = 0n;
-  for (const byte of bytes) {
-    value = (value << 8n) | BigInt(byte);
+/** Validate a byte array's length. */
+function checkedBytes(bytes: Uint8Array): Uint8Array {
+  if (bytes.length !== 16) {
+    throw new TnidParseError(
+      TnidParseErrorCode.BAD_LENGTH,
+      `Invalid TNID bytes: expected 16 bytes, got ${bytes.length}`,
+    );
   }
+  return bytes;
+}
 
-  return valueToUuidString(value, upperCase);
+/** Validate that a bigint fits in 128 unsigned bits and convert it to bytes. */
+function checkedBigIntToBytes(value: bigint): Uint8Array {
+  if (value < 0n || value > MAX_VALUE) {
+    throw new TnidParseError(
+      TnidParseErrorCode.BAD_LENGTH,
+      `Invalid TNID value: expected an unsigned 128-bit integer, got ${value}`,
+    );
+  }
+  return valueToBytes(value);
 }
 
-function parseDynamicTnidImpl(s: string): DynamicTnid {
+function toUuidStringImpl(id: DynamicTnid, upperCase: boolean = false): string {
+  const dotIndex = id.indexOf(".");
+  if (dotIndex === -1) {
+    throw new TnidParseError(
+      TnidParseErrorCode.BAD_SEPARATOR,
+      "Invalid TNID: missing separator",
+    );
+  }
+
+  const nameBits = encodeName(id.substring(0, dotIndex));
+  const words = decodeData(id.substring(dotIndex + 1), nameBits, dotIndex + 1);
+  return wordsToUuidString(words, upperCase);
+}
+
+function getTimestampMillisImpl(id: DynamicTnid): bigint {
+  const value = toValueImpl(id);
+  const variant = extractVariantFromValue(value);
+  if (variant !== "v0") {
+    throw new TnidVariantError("Timestamp extraction", variant);
+  }
+  return extractMillis(value);
+}
+
+function getRandomBitsImpl(id: DynamicTnid): bigint {
+  const value = toValueImpl(id);
+  const variant = extractVariantFromValue(value);
+  switch (variant) {
+    case "v0":
+      return value & V0_RANDOM_MASK;
+    case "v1":
+      return value & V1_RANDOM_MASK;
+    default:
+      throw new TnidVariantError("Random bit extraction", variant);
+  }
+}
+
+function newPayloadTnidImpl(
+  name: string,
+  nameBits: number,
+  variant: TnidPayloadVariant,
+  payload: unknown,
+): DynamicTnid {
+  const value = buildTnidValue(
+    nameBits,
+    encodePayloadImpl(variant, payload),
+    variant === "v2" ? 2n : 3n,
+  );
+  return `${name}.${encodeData(valueToWords(value))}` as DynamicTnid;
+}
+
+function decodePayloadTnidImpl(
+  id: DynamicTnid,
+  variant: TnidPayloadVariant,
+): unknown {
+  const value = toValueImpl(id);
+  const actual = extractVariantFromValue(value);
+  if (actual !== variant) {
+    throw new TnidVariantError(
+      `${variant.toUpperCase()} payload decoding`,
+      actual,
+    );
+  }
+  return decodePayloadImpl(variant, value);
+}
+
+function inspectImpl<Name extends string>(
+  id: TnidValue<Name>,
+): TnidInspection<Name> {
+  const bytes = toBytesImpl(id);
+  const value = bytesToValue(bytes);
+  const base = {
+    tnid: id,
+    name: getTnidNameImpl(id) as Name,
+    nameHex: getNameHexImpl(id),
+    uuid: bytesToUuidString(bytes),
+    uuidUpper: bytesToUuidString(bytes, true),
+    value,
+    bytes,
+  };
+  const variant = extractVariantFromValue(value);
+  switch (variant) {
+    case "v0": {
+      const timestampMillis = extractMillis(value);
+      return {
+        ...base,
+        variant,
+        timestamp: new Date(Number(timestampMillis)),
+        timestampMillis,
+        randomBits: value & V0_RANDOM_MASK,
+      };
+    }
+    case "v1":
+      return { ...base, variant, randomBits: value & V1_RANDOM_MASK };
+    default:
+      return { ...base, variant };
+  }
+}
+
+/** Throw the issue of a failed non-throwing parse, or return its value. */
+function unwrapParseImpl<T>(result: T | TnidParseIssue): T {
+  if (result instanceof TnidParseIssue) throw result.toError();
+  return result;
+}
+
+/**
+ * Convert the outcome of a non-throwing parse to a `ParseResult`. The
+ * `TnidParseError` of a failure is only built when `error` is read.
+ */
+function parseResultImpl<T>(result: T | TnidParseIssue): ParseResult<T> {
+  if (result instanceof TnidParseIssue) {
+    const issue = result;
+    return {
+      ok: false,
+      get error() {
+        return issue.toError();
+      },
+    };
+  }
+  return { ok: true, value: result };
+}
+
+function tryParseDynamicTnidImpl(s: string): DynamicTnid | TnidParseIssue {
   const dotIndex = s.indexOf(".");
   if (dotIndex === -1) {
-    throw new Error("Invalid TNID string: missing '.' separator");
+    return new TnidParseIssue(
+      TnidParseErrorCode.BAD_SEPARATOR,
+      "Invalid TNID string: missing '.' separator",
+    );
   }
 
   const name = s.substring(0, dotIndex);
   const dataEncoded = s.substring(dotIndex + 1);
 
-  if (!isValidNameRuntime(name)) {
-    throw new Error(`Invalid TNID name: "${name}"`);
-  }
+  const nameIssue = checkValidNameRuntime(name, `Invalid TNID name: "${name}"`);
+  if (nameIssue) return nameIssue;
 
   // Validate data portion
   const nameBits = encodeName(name);
-  const { dataBits } = decodeData(dataEncoded);
+  const reconstructed = tryDecodeData(dataEncoded, nameBits, dotIndex + 1);
+  if (reconstructed instanceof TnidParseIssue) return reconstructed;
 
   // Verify we can reconstruct it (validates the encoding)
-  const reconstructed = dataBitsToBytes(dataBits, nameBits);
   const reencoded = encodeData(reconstructed);
 
   if (reencoded !== dataEncoded) {
-    throw new Error("Invalid TNID data encoding");
+    return new TnidParseIssue(
+      TnidParseErrorCode.NON_CANONICAL,
+      "Invalid TNID data encoding",
+    );
   }
 
   return s as DynamicTnid;
 }
 
+function parseDynamicTnidImpl(s: string): DynamicTnid {
+  return unwrapParseImpl(tryParseDynamicTnidImpl(s));
+}
+
+function tryParseDynamicUuidStringImpl(
+  uuid: string,
+): DynamicTnid | TnidParseIssue {
+  const bytes = tryParseUuidStringToBytes(uuid);
+  if (bytes instanceof TnidParseIssue) return bytes;
+  return tryFromBytesImpl(bytes);
+}
+
 function parseDynamicUuidStringImpl(uuid: string): DynamicTnid {
-  const value = parseUuidStringToValue(uuid);
+  return unwrapParseImpl(tryParseDynamicUuidStringImpl(uuid));
+}
 
-  if (!validateUuidBits(value)) {
-    throw new Error("Invalid TNID: not a valid UUIDv8");
+/** Check the UUIDv8 bits and the name of a 16-byte TNID. */
+function checkTnidBytesImpl(bytes: Uint8Array): TnidParseIssue | undefined {
+  if (!validateUuidBytes(bytes)) {
+    return new TnidParseIssue(
+      TnidParseErrorCode.NOT_UUIDV8,
+      "Invalid TNID: not a valid UUIDv8",
+    );
   }
 
-  const nameBits = extractNameBitsFromValue(value);
-  const name = decodeName(nameBits);
+  const nameBits = extractNameBitsFromBytes(bytes);
+  const name = tryDecodeName(nameBits);
+  if (name instanceof TnidParseIssue) return name;
 
   if (name === null || !isValidNameRuntime(name)) {
-    throw new Error(`Invalid TNID: invalid name encoding`);
+    return new TnidParseIssue(
+      TnidParseErrorCode.BAD_NAME_ENCODING,
+      `Invalid TNID: invalid name encoding`,
+    );
+  }
+  return undefined;
+}
+
+function tryFromBytesImpl(bytes: Uint8Array): DynamicTnid | TnidParseIssue {
+  return checkTnidBytesImpl(bytes) ??
+    tnidStringFromBytes(bytes) as DynamicTnid;
+}
+
+function fromBytesImpl(bytes: Uint8Array): DynamicTnid {
+  return unwrapParseImpl(tryFromBytesImpl(bytes));
+}
+
+/** Parse a TNID string or UUID string, auto-detected by length. */
+function tryParseDynamicImpl(s: string): DynamicTnid | TnidParseIssue {
+  if (
+    s.length >= MIN_TNID_LEN && s.length <= MAX_TNID_LEN && s.includes(".")
+  ) {
+    return tryParseDynamicTnidImpl(s);
+  } else if (s.length >= MIN_TNID_LEN && s.length <= MAX_TNID_LEN) {
+    return new TnidParseIssue(
+      TnidParseErrorCode.BAD_SEPARATOR,
+      `Invalid TNID string: missing '.' separator`,
+    );
+  } else if (s.length === UUID_LEN) {
+    return tryParseDynamicUuidStringImpl(s);
+  } else {
+    return new TnidParseIssue(
+      TnidParseErrorCode.BAD_LENGTH,
+      `Invalid TNID: expected TNID string (${MIN_TNID_LEN}-${MAX_TNID_LEN} chars) or UUID (${UUID_LEN} chars), got ${s.length} chars`,
+    );
+  }
+}
+
+/** Parse a TNID string or a UUID string (either case) to the 128-bit value. */
+function parseToValueImpl(s: string): bigint {
+  if (s.length === UUID_LEN) {
+    const value = parseUuidStringToValue(s);
+    unwrapParseImpl(tryFromBytesImpl(valueToBytes(value)));
+    return value;
+  }
+  return toValueImpl(DynamicTnid.parse(s));
+}
+
+function compareImpl(a: string, b: string): number {
+  const x = parseToValueImpl(a);
+  const y = parseToValueImpl(b);
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function timeBoundImpl(
+  name: string,
+  nameBits: number,
+  time: Date,
+  randomBits: bigint,
+): TnidBound<string> {
+  const ms = time.getTime();
+  if (!Number.isInteger(ms) || ms < 0 || BigInt(ms) > MAX_TIMESTAMP_MS) {
+    throw new Error(
+      `Time out of range for a V0 TNID: expected 0 to ${MAX_TIMESTAMP_MS} ms since the Unix epoch, got ${ms}`,
+    );
   }
+  const words = generateV0(nameBits, BigInt(ms), randomBits);
+  return {
+    tnid: `${name}.${encodeData(words)}` as DynamicTnid,
+    uuid: wordsToUuidString(words),
+  };
+}
+
+function minForTimeImpl(
+  name: string,
+  nameBits: number,
+  time: Date,
+): TnidBound<string> {
+  return timeBoundImpl(name, nameBits, time, 0n);
+}
+
+function maxForTimeImpl(
+  name: string,
+  nameBits: number,
+  time: Date,
+): TnidBound<string> {
+  return timeBoundImpl(name, nameBits, time, V0_RANDOM_MASK);
+}
 
-  return valueToTnidString(value) as DynamicTnid;
+function rangeForIntervalImpl(
+  name: string,
+  nameBits: number,
+  start: Date,
+  end: Date,
+): TnidRange<string> {
+  if (end.getTime() < start.getTime()) {
+    throw new Error("Invalid interval: end is before start");
+  }
+  return {
+    min: minForTimeImpl(name, nameBits, start),
+    max: maxForTimeImpl(name, nameBits, end),
+  };
 }
 
 // -----------------------------------------------------------------------------
@@ -134,6 +452,12 @@ function parseDynamicUuidStringImpl(uuid: string): DynamicTnid {
 
 /** Interface for DynamicTnid static methods. */
 export interface DynamicTnidNamespace {
+  /** Standard Schema v1 support. Validates like `parse`. */
+  readonly "~standard": StandardSchemaV1Props<
+    string,
+    DynamicTnid,
+    TnidStandardSchemaIssue
+  >;
   /** Generate a new time-sortable TNID (variant 0) with runtime name validation. */
   newV0(name: string): DynamicTnid;
   /** Alias for newV0. */
@@ -146,30 +470,151 @@ export interface DynamicTnidNamespace {
     epochMillis: bigint,
     random: bigint,
   ): DynamicTnid;
+  /**
+   * Generate a new time-sortable TNID (variant 0) that sorts strictly after
+   * every TNID previously returned by this method, even within the same
+   * millisecond or if the clock moves backwards.
+   */
+  newV0Monotonic(name: string): DynamicTnid;
+  /**
+   * Generate `count` new time-sortable TNIDs (variant 0), drawing random bits
+   * in bulk rather than per ID.
+   */
+  newV0Batch(
+    name: string,
+    count: number,
+    options?: V0BatchOptions,
+  ): DynamicTnid[];
+  /** Lazily generate an unbounded sequence of time-sortable TNIDs (variant 0). */
+  iterV0(name: string, options?: V0BatchOptions): IterableIterator<DynamicTnid>;
   /** Generate a new high-entropy TNID (variant 1) with runtime name validation. */
   newV1(name: string): DynamicTnid;
   /** Alias for newV1. */
   newHighEntropy(name: string): DynamicTnid;
   /** Generate a new high-entropy TNID with explicit random bits. */
   newV1WithRandom(name: string, randomBits: bigint): DynamicTnid;
+  /** Generate `count` new high-entropy TNIDs (variant 1), drawing random bits in bulk. */
+  newV1Batch(name: string, count: number): DynamicTnid[];
+  /** Lazily generate an unbounded sequence of high-entropy TNIDs (variant 1). */
+  iterV1(name: string): IterableIterator<DynamicTnid>;
+  /**
+   * Generate a TNID of the reserved variant 2, holding `payload` packed with
+   * the layout registered by `setTnidPayloadLayout("v2", ...)`.
+   * @throws RangeError if the layout encodes `payload` to more than 100 bits
+   */
+  newV2(name: string, payload: TnidPayload<"v2">): DynamicTnid;
+  /**
+   * Generate a TNID of the reserved variant 3, holding `payload` packed with
+   * the layout registered by `setTnidPayloadLayout("v3", ...)`.
+   * @throws RangeError if the layout encodes `payload` to more than 100 bits
+   */
+  newV3(name: string, payload: TnidPayload<"v3">): DynamicTnid;
+  /**
+   * Get the payload of a V2 TNID, unpacked with the registered layout.
+   * @throws TnidVariantError if the TNID is not V2
+   */
+  decodeV2(id: DynamicTnid): TnidPayload<"v2">;
+  /**
+   * Get the payload of a V3 TNID, unpacked with the registered layout.
+   * @throws TnidVariantError if the TNID is not V3
+   */
+  decodeV3(id: DynamicTnid): TnidPayload<"v3">;
   /** Parse a TNID from either TNID string format or UUID hex format (auto-detected). */
   parse(s: string): DynamicTnid;
   /** Parse a TNID string (e.g., "user.Br2flcNDfF6LYICnT"). */
   parseTnidString(s: string): DynamicTnid;
   /** Parse a UUID hex string into a DynamicTnid (validates TNID structure). */
   parseUuidString(uuid: string): DynamicTnid;
-  /** Get the name from a TNID. */
-  getName(id: DynamicTnid): string;
+  /** Like `parse`, but returns a `ParseResult` instead of throwing. */
+  safeParse(s: string): ParseResult<DynamicTnid>;
+  /**
+   * Get the name from a TNID. Returns the literal name type when `id` is
+   * typed, e.g. `"user"` for a `TnidValue<"user">`.
+   */
+  getName<Name extends string>(id: TnidValue<Name>): Name;
   /** Get the name encoded as a 5-character hex string. */
   getNameHex(id: DynamicTnid): string;
   /** Get the variant of a TNID. */
   getVariant(id: DynamicTnid): TnidVariant;
   /** Convert to UUID hex string format. */
   toUuidString(id: DynamicTnid, caseFormat?: Case): string;
+  /** Convert to the 16-byte (big-endian) binary form, as stored in a UUID column. */
+  toBytes(id: DynamicTnid): Uint8Array;
+  /**
+   * Parse the 16-byte binary form (validates TNID structure).
+   * @throws TnidParseError if the bytes are not a valid TNID
+   */
+  fromBytes(bytes: Uint8Array): DynamicTnid;
+  /** Convert to the 128-bit integer form. */
+  toBigInt(id: DynamicTnid): bigint;
+  /**
+   * Parse the 128-bit integer form (validates TNID structure).
+   * @throws TnidParseError if the value is not a valid TNID
+   */
+  fromBigInt(value: bigint): DynamicTnid;
+  /**
+   * Get the creation time of a V0 TNID.
+   * @throws TnidVariantError if the TNID is not V0
+   */
+  getTimestamp(id: DynamicTnid): Date;
+  /**
+   * Get the creation time of a V0 TNID in milliseconds since the Unix epoch.
+   * @throws TnidVariantError if the TNID is not V0
+   */
+  getTimestampMillis(id: DynamicTnid): bigint;
+  /**
+   * Get the random bits of a V0 or V1 TNID, in the form accepted by
+   * `newV0WithParts` / `newV1WithRandom`.
+   * @throws TnidVariantError if the TNID is not V0 or V1
+   */
+  getRandomBits(id: DynamicTnid): bigint;
+  /**
+   * Get all decoded fields of a TNID at once, e.g. for debugging: name, UUID
+   * forms, integer and binary forms, and the variant's timestamp and random
+   * bits.
+   *
+   * @example
+   * ```typescript
+   * const info = DynamicTnid.inspect(id);
+   * if (info.variant === "v0") console.log(info.timestamp);
+   * ```
+   */
+  inspect<Name extends string>(id: TnidValue<Name>): TnidInspection<Name>;
+  /**
+   * Compare two TNIDs, each given as a TNID string or a UUID string in either
+   * case. Returns a negative number, zero or a positive number, so it can be
+   * passed to `Array.prototype.sort`.
+   *
+   * TNIDs are ordered by their 128-bit value, which is the order of their UUID
+   * bytes (and of their TNID strings): by name first, then for V0 TNIDs of a
+   * name by timestamp and then random bits.
+   *
+   * @throws TnidParseError if either string is not a valid TNID
+   *
+   * @example
+   * ```typescript
+   * ids.sort(DynamicTnid.compare); // mixed TNID and UUID strings
+   * ```
+   */
+  compare(a: string, b: string): number;
+  /**
+   * Whether two strings are the same TNID, each given as a TNID string or a
+   * UUID string in either case.
+   * @throws TnidParseError if either string is not a valid TNID
+   */
+  equals(a: string, b: string): boolean;
+  /** Get the smallest V0 TNID that can be generated at the given time. */
+  minForTime(name: string, time: Date): TnidBound<string>;
+  /** Get the largest V0 TNID that can be generated at the given time. */
+  maxForTime(name: string, time: Date): TnidBound<string>;
+  /** Get inclusive V0 TNID bounds covering every millisecond from `start` to `end`. */
+  rangeForInterval(name: string, start: Date, end: Date): TnidRange<string>;
 }
 
 /** Static methods for working with any TNID regardless of name. */
 export const DynamicTnid: DynamicTnidNamespace = {
+  "~standard": standardSchemaImpl(tryParseDynamicImpl),
+
   newV0(name: string): DynamicTnid {
     if (!isValidNameRuntime(name)) {
       throw new Error(
@@ -177,8 +622,8 @@ export const DynamicTnid: DynamicTnidNamespace = {
       );
     }
     const nameBits = encodeName(name);
-    const bytes = generateV0(nameBits);
-    const dataEncoded = encodeData(bytes);
+    const words = generateV0(nameBits);
+    const dataEncoded = encodeData(words);
     return `${name}.${dataEncoded}` as DynamicTnid;
   },
 
@@ -194,8 +639,8 @@ export const DynamicTnid: DynamicTnidNamespace = {
     }
     const nameBits = encodeName(name);
     const timestampMs = BigInt(time.getTime());
-    const bytes = generateV0(nameBits, timestampMs);
-    const dataEncoded = encodeData(bytes);
+    const words = generateV0(nameBits, timestampMs);
+    const dataEncoded = encodeData(words);
     return `${name}.${dataEncoded}` as DynamicTnid;
   },
 
@@ -210,11 +655,50 @@ export const DynamicTnid: DynamicTnidNamespace = {
       );
     }
     const nameBits = encodeName(name);
-    const bytes = generateV0(nameBits, epochMillis, random);
-    const dataEncoded = encodeData(bytes);
+    const words = generateV0(nameBits, epochMillis, random);
+    const dataEncoded = encodeData(words);
+    return `${name}.${dataEncoded}` as DynamicTnid;
+  },
+
+  newV0Monotonic(name: string): DynamicTnid {
+    if (!isValidNameRuntime(name)) {
+      throw new Error(
+        `Invalid TNID name: "${name}". Must be 1-4 characters of: 0-4, a-z`,
+      );
+    }
+    const nameBits = encodeName(name);
+    const { timestampMs, randomBits } = monotonic.next();
+    const words = generateV0(nameBits, timestampMs, randomBits);
+    const dataEncoded = encodeData(words);
     return `${name}.${dataEncoded}` as DynamicTnid;
   },
 
+  newV0Batch(
+    name: string,
+    count: number,
+    options: V0BatchOptions = {},
+  ): DynamicTnid[] {
+    return takeImpl(DynamicTnid.iterV0(name, options), count);
+  },
+
+  iterV0(
+    name: string,
+    options: V0BatchOptions = {},
+  ): IterableIterator<DynamicTnid> {
+    if (!isValidNameRuntime(name)) {
+      throw new Error(
+        `Invalid TNID name: "${name}". Must be 1-4 characters of: 0-4, a-z`,
+      );
+    }
+    const nameBits = encodeName(name);
+    return iterV0Impl(
+      name,
+      nameBits,
+      undefined,
+      options.monotonic ? monotonic : undefined,
+    ) as IterableIterator<DynamicTnid>;
+  },
+
   newV1(name: string): DynamicTnid {
     if (!isValidNameRuntime(name)) {
       throw new Error(
@@ -222,8 +706,8 @@ export const DynamicTnid: DynamicTnidNamespace = {
       );
     }
     const nameBits = encodeName(name);
-    const bytes = generateV1(nameBits);
-    const dataEncoded = encodeData(bytes);
+    const words = generateV1(nameBits);
+    const dataEncoded = encodeData(words);
     return `${name}.${dataEncoded}` as DynamicTnid;
   },
 
@@ -238,25 +722,53 @@ export const DynamicTnid: DynamicTnidNamespace = {
       );
     }
     const nameBits = encodeName(name);
-    const bytes = generateV1(nameBits, randomBits);
-    const dataEncoded = encodeData(bytes);
+    const words = generateV1(nameBits, randomBits);
+    const dataEncoded = encodeData(words);
     return `${name}.${dataEncoded}` as DynamicTnid;
   },
 
-  parse(s: string): DynamicTnid {
-    if (
-      s.length >= MIN_TNID_LEN && s.length <= MAX_TNID_LEN && s.includes(".")
-    ) {
-      return parseDynamicTnidImpl(s);
-    } else if (s.length >= MIN_TNID_LEN && s.length <= MAX_TNID_LEN) {
-      throw new Error(`Invalid TNID string: missing '.' separator`);
-    } else if (s.length === UUID_LEN) {
-      return parseDynamicUuidStringImpl(s);
-    } else {
+  newV1Batch(name: string, count: number): DynamicTnid[] {
+    return takeImpl(DynamicTnid.iterV1(name), count);
+  },
+
+  iterV1(name: string): IterableIterator<DynamicTnid> {
+    if (!isValidNameRuntime(name)) {
+      throw new Error(
+        `Invalid TNID name: "${name}". Must be 1-4 characters of: 0-4, a-z`,
+      );
+    }
+    const nameBits = encodeName(name);
+    return iterV1Impl(name, nameBits) as IterableIterator<DynamicTnid>;
+  },
+
+  newV2(name: string, payload: TnidPayload<"v2">): DynamicTnid {
+    if (!isValidNameRuntime(name)) {
+      throw new Error(
+        `Invalid TNID name: "${name}". Must be 1-4 characters of: 0-4, a-z`,
+      );
+    }
+    return newPayloadTnidImpl(name, encodeName(name), "v2", payload);
+  },
+
+  newV3(name: string, payload: TnidPayload<"v3">): DynamicTnid {
+    if (!isValidNameRuntime(name)) {
       throw new Error(
-        `Invalid TNID: expected TNID string (${MIN_TNID_LEN}-${MAX_TNID_LEN} chars) or UUID (${UUID_LEN} chars), got ${s.length} chars`,
+        `Invalid TNID name: "${name}". Must be 1-4 characters of: 0-4, a-z`,
       );
     }
+    return newPayloadTnidImpl(name, encodeName(name), "v3", payload);
+  },
+
+  decodeV2(id: DynamicTnid): TnidPayload<"v2"> {
+    return decodePayloadTnidImpl(id, "v2") as TnidPayload<"v2">;
+  },
+
+  decodeV3(id: DynamicTnid): TnidPayload<"v3"> {
+    return decodePayloadTnidImpl(id, "v3") as TnidPayload<"v3">;
+  },
+
+  parse(s: string): DynamicTnid {
+    return unwrapParseImpl(tryParseDynamicImpl(s));
   },
 
   parseTnidString(s: string): DynamicTnid {
@@ -267,8 +779,12 @@ export const DynamicTnid: DynamicTnidNamespace = {
     return parseDynamicUuidStringImpl(uuid);
   },
 
-  getName(id: DynamicTnid): string {
-    return getTnidNameImpl(id);
+  safeParse(s: string): ParseResult<DynamicTnid> {
+    return parseResultImpl(tryParseDynamicImpl(s));
+  },
+
+  getName<Name extends string>(id: TnidValue<Name>): Name {
+    return getTnidNameImpl(id) as Name;
   },
 
   getNameHex(id: DynamicTnid): string {
@@ -282,7 +798,93 @@ export const DynamicTnid: DynamicTnidNamespace = {
   toUuidString(id: DynamicTnid, caseFormat: Case = "lower"): string {
     return toUuidStringImpl(id, caseFormat === "upper");
   },
+
+  toBytes(id: DynamicTnid): Uint8Array {
+    return toBytesImpl(id);
+  },
+
+  fromBytes(bytes: Uint8Array): DynamicTnid {
+    return fromBytesImpl(checkedBytes(bytes));
+  },
+
+  toBigInt(id: DynamicTnid): bigint {
+    return toValueImpl(id);
+  },
+
+  fromBigInt(value: bigint): DynamicTnid {
+    return fromBytesImpl(checkedBigIntToBytes(value));
+  },
+
+  getTimestamp(id: DynamicTnid): Date {
+    return new Date(Number(getTimestampMillisImpl(id)));
+  },
+
+  getTimestampMillis(id: DynamicTnid): bigint {
+    return getTimestampMillisImpl(id);
+  },
+
+  getRandomBits(id: DynamicTnid): bigint {
+    return getRandomBitsImpl(id);
+  },
+
+  inspect<Name extends string>(id: TnidValue<Name>): TnidInspection<Name> {
+    return inspectImpl(id);
+  },
+
+  compare(a: string, b: string): number {
+    return compareImpl(a, b);
+  },
+
+  equals(a: string, b: string): boolean {
+    return compareImpl(a, b) === 0;
+  },
+
+  minForTime(name: string, time: Date): TnidBound<string> {
+    if (!isValidNameRuntime(name)) {
+      throw new Error(
+        `Invalid TNID name: "${name}". Must be 1-4 characters of: 0-4, a-z`,
+      );
+    }
+    return minForTimeImpl(name, encodeName(name), time);
+  },
+
+  maxForTime(name: string, time: Date): TnidBound<string> {
+    if (!isValidNameRuntime(name)) {
+      throw new Error(
+        `Invalid TNID name: "${name}". Must be 1-4 characters of: 0-4, a-z`,
+      );
+    }
+    return maxForTimeImpl(name, encodeName(name), time);
+  },
+
+  rangeForInterval(name: string, start: Date, end: Date): TnidRange<string> {
+    if (!isValidNameRuntime(name)) {
+      throw new Error(
+        `Invalid TNID name: "${name}". Must be 1-4 characters of: 0-4, a-z`,
+      );
+    }
+    return rangeForIntervalImpl(name, encodeName(name), start, end);
+  },
 };
 
 // Export helper functions for use by factory.ts
-export { getTnidVariantImpl, toUuidStringImpl };
+export {
+  checkedBigIntToBytes,
+  checkedBytes,
+  decodePayloadTnidImpl,
+  getRandomBitsImpl,
+  getTimestampMillisImpl,
+  getTnidVariantImpl,
+  maxForTimeImpl,
+  minForTimeImpl,
+  newPayloadTnidImpl,
+  parseResultImpl,
+  rangeForIntervalImpl,
+  toBytesImpl,
+  toUuidStringImpl,
+  toValueImpl,
+  tryFromBytesImpl,
+  tryParseDynamicImpl,
+  tryParseDynamicUuidStringImpl,
+  unwrapParseImpl,
+};
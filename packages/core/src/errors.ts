@@ -0,0 +1,116 @@
+// =============================================================================
+// Error Types
+// =============================================================================
+
+import type { TnidVariant } from "./types.ts";
+
+/**
+ * Error thrown when an operation is not supported for a TNID's variant,
+ * e.g. reading the timestamp of a V1 TNID.
+ */
+export class TnidVariantError extends Error {
+  /** The variant of the TNID that was passed in. */
+  readonly variant: TnidVariant;
+
+  constructor(operation: string, variant: TnidVariant) {
+    super(`${operation} is not supported for ${variant} TNIDs`);
+    this.name = "TnidVariantError";
+    this.variant = variant;
+  }
+}
+
+/**
+ * Machine-readable reason a string failed to parse as a TNID or UUID.
+ *
+ * - `NAME_MISMATCH`: valid TNID, but with a different name than expected
+ * - `BAD_SEPARATOR`: missing `.` in a TNID string, or a misplaced `-` in a UUID
+ * - `BAD_LENGTH`: wrong overall, data, or name length
+ * - `BAD_DATA_CHAR`: character outside the data or hex alphabet
+ * - `NOT_UUIDV8`: UUID version/variant bits are not those of a TNID
+ * - `BAD_NAME_ENCODING`: name characters or name bits are invalid
+ * - `NON_CANONICAL`: data decodes, but is not the canonical encoding
+ */
+export const TnidParseErrorCode = {
+  NAME_MISMATCH: "NAME_MISMATCH",
+  BAD_SEPARATOR: "BAD_SEPARATOR",
+  BAD_LENGTH: "BAD_LENGTH",
+  BAD_DATA_CHAR: "BAD_DATA_CHAR",
+  NOT_UUIDV8: "NOT_UUIDV8",
+  BAD_NAME_ENCODING: "BAD_NAME_ENCODING",
+  NON_CANONICAL: "NON_CANONICAL",
+} as const;
+
+/** Union of all `TnidParseErrorCode` values. */
+export type TnidParseErrorCode =
+  typeof TnidParseErrorCode[keyof typeof TnidParseErrorCode];
+
+/** Optional location details attached to a `TnidParseError`. */
+export interface TnidParseErrorDetails {
+  /** Index of the offending character in the input string. */
+  position?: number;
+  /** The offending character. */
+  character?: string;
+}
+
+/**
+ * Error thrown when a string cannot be parsed as a TNID or UUID.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   UserId.parse(input);
+ * } catch (e) {
+ *   if (e instanceof TnidParseError && e.code === "BAD_DATA_CHAR") {
+ *     console.log(`bad character ${e.character} at ${e.position}`);
+ *   }
+ * }
+ * ```
+ */
+export class TnidParseError extends Error {
+  /** Machine-readable reason for the failure. */
+  readonly code: TnidParseErrorCode;
+  /** Index of the offending character in the input string, if known. */
+  readonly position?: number;
+  /** The offending character, if known. */
+  readonly character?: string;
+
+  constructor(
+    code: TnidParseErrorCode,
+    message: string,
+    details: TnidParseErrorDetails = {},
+  ) {
+    super(message);
+    this.name = "TnidParseError";
+    this.code = code;
+    this.position = details.position;
+    this.character = details.character;
+  }
+}
+
+/**
+ * A parse failure returned (rather than thrown) by the non-throwing
+ * validators. Building an `Error` captures a stack trace, so the
+ * `TnidParseError` is only created when asked for.
+ */
+export class TnidParseIssue {
+  readonly code: TnidParseErrorCode;
+  readonly message: string;
+  readonly details: TnidParseErrorDetails;
+  #error?: TnidParseError;
+
+  constructor(
+    code: TnidParseErrorCode,
+    message: string,
+    details: TnidParseErrorDetails = {},
+  ) {
+    this.code = code;
+    this.message = message;
+    this.details = details;
+  }
+
+  /** The `TnidParseError` the throwing parser reports for this failure. */
+  toError(): TnidParseError {
+    this.#error ??= new TnidParseError(this.code, this.message, this.details);
+    return this.#error;
+  }
+}
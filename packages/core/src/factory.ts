@@ -5,63 +5,137 @@
 import type {
   Case,
   NamedTnid,
+  ParseResult,
+  StrictTnidValue,
+  TnidBound,
+  TnidRange,
+  TnidUnion,
   TnidValue,
   TnidVariant,
+  V0BatchOptions,
   ValidateName,
 } from "./types.ts";
 import type { DynamicTnid } from "./dynamic.ts";
+import type { TnidPayload } from "./payload.ts";
 import {
-  decodeName,
+  checkValidNameRuntime,
   encodeName,
   isValidNameRuntime,
   NAME_MAX_CHARS,
   NAME_MIN_CHARS,
+  tryDecodeName,
 } from "./name_encoding.ts";
 import {
   DATA_CHAR_ENCODING_LEN,
-  dataBitsToBytes,
-  decodeData,
   encodeData,
+  tryDecodeData,
 } from "./data_encoding.ts";
-import { generateV0, generateV1 } from "./bits.ts";
 import {
-  extractNameBitsFromValue,
-  parseUuidStringToValue,
-  validateUuidBits,
-  valueToTnidString,
+  expandPayloadBits,
+  generateV0,
+  generateV1,
+  randomBigInt,
+} from "./bits.ts";
+import { hashPayloadImpl } from "./hash.ts";
+import { MonotonicV0State } from "./monotonic.ts";
+import { iterV0Impl, iterV1Impl, takeImpl } from "./batch.ts";
+import { unionImpl } from "./union.ts";
+import { standardSchemaImpl } from "./standard_schema.ts";
+import type { TnidOptions, TnidSource } from "./source.ts";
+import { resolveSource } from "./source.ts";
+import { TnidParseErrorCode, TnidParseIssue } from "./errors.ts";
+import {
+  extractNameBitsFromBytes,
+  tnidStringFromBytes,
+  tryParseUuidStringToBytes,
+  validateUuidBytes,
 } from "./uuid.ts";
-import { getTnidVariantImpl, toUuidStringImpl } from "./dynamic.ts";
+import {
+  checkedBigIntToBytes,
+  checkedBytes,
+  decodePayloadTnidImpl,
+  getRandomBitsImpl,
+  getTimestampMillisImpl,
+  getTnidVariantImpl,
+  maxForTimeImpl,
+  minForTimeImpl,
+  newPayloadTnidImpl,
+  parseResultImpl,
+  rangeForIntervalImpl,
+  toBytesImpl,
+  toUuidStringImpl,
+  toValueImpl,
+  unwrapParseImpl,
+} from "./dynamic.ts";
 
 const MIN_TNID_LEN = NAME_MIN_CHARS + 1 + DATA_CHAR_ENCODING_LEN;
 const MAX_TNID_LEN = NAME_MAX_CHARS + 1 + DATA_CHAR_ENCODING_LEN;
 const UUID_LEN = 36;
 
-/**
- * Create a NamedTnid for the given name.
- *
- * The name is validated at **compile time** - only 1-4 characters using `0-4` and `a-z`.
- * Invalid names will produce a TypeScript error.
- *
- * @example
- * ```ts
- * const UserId = Tnid("user");
- * type UserId = TnidType<typeof UserId>;
- *
- * const id = UserId.new_v0();        // Generate new ID
- * const parsed = UserId.parse(str);  // Parse existing ID
- * ```
- *
- * @example
- * ```ts
- * // These produce compile errors:
- * Tnid("users")  // Too long (max 4 chars)
- * Tnid("User")   // Uppercase not allowed
- * Tnid("a-b")    // Hyphen not allowed
- * Tnid("5")      // Only digits 0-4 allowed
- * ```
- */
-export function Tnid<const Name extends string>(
+/** The `Tnid` function, with combinators for working with several names. */
+export interface TnidFunction {
+  /**
+   * Create a NamedTnid for the given name.
+   *
+   * The name is validated at **compile time** - only 1-4 characters using `0-4` and `a-z`.
+   * Invalid names will produce a TypeScript error.
+   *
+   * @example
+   * ```ts
+   * const UserId = Tnid("user");
+   * type UserId = TnidType<typeof UserId>;
+   *
+   * const id = UserId.new_v0();        // Generate new ID
+   * const parsed = UserId.parse(str);  // Parse existing ID
+   * ```
+   *
+   * @example
+   * ```ts
+   * // Reproducible IDs for tests: fixed clock, all-zero random bits
+   * const TestId = Tnid("test", {
+   *   clock: () => 1700000000000,
+   *   random: (bytes) => bytes.fill(0),
+   * });
+   * ```
+   *
+   * @example
+   * ```ts
+   * // These produce compile errors:
+   * Tnid("users")  // Too long (max 4 chars)
+   * Tnid("User")   // Uppercase not allowed
+   * Tnid("a-b")    // Hyphen not allowed
+   * Tnid("5")      // Only digits 0-4 allowed
+   * ```
+   */
+  <const Name extends string>(
+    name: ValidateName<Name>,
+    options?: TnidOptions,
+  ): NamedTnid<Name>;
+
+  /**
+   * Combine NamedTnids into a parser that accepts a TNID of any of their
+   * names, typed as the union of their `TnidValue`s.
+   *
+   * @example
+   * ```ts
+   * const CommentTarget = Tnid.union(UserId, PostId);
+   * type CommentTarget = TnidType<typeof CommentTarget>; // UserId | PostId
+   *
+   * const target = CommentTarget.parse(params.targetId);
+   * CommentTarget.match(target, {
+   *   user: (id) => loadUser(id), // id: UserId
+   *   post: (id) => loadPost(id), // id: PostId
+   * });
+   * ```
+   */
+  union<T extends NamedTnid<string>[]>(
+    ...tnids: T
+  ): TnidUnion<T[number]["name"]>;
+}
+
+function createTnid<const Name extends string>(
   name: ValidateName<Name>,
+  options?: TnidOptions,
 ): NamedTnid<Name> {
   // Runtime validation (belt and suspenders)
   if (!isValidNameRuntime(name)) {
@@ -72,105 +146,272 @@ export function Tnid<const Name extends string>(
 
   const nameBits = encodeName(name);
 
+  // Resolved on every call, so setDefaultTnidSource() applies to this factory
+  // unless it was given its own clock/random
+  const source: TnidSource = {
+    clock: () => resolveSource(options).clock(),
+    random: (bytes) => resolveSource(options).random(bytes),
+  };
+  const monotonic = new MonotonicV0State(
+    () => BigInt(Math.floor(source.clock())),
+    () => randomBigInt(8, source),
+  );
+
+  /** Convert a 16-byte value to a TNID string, validating structure and name. */
+  function tryFromBytes(
+    bytes: Uint8Array,
+  ): StrictTnidValue<Name> | TnidParseIssue {
+    if (!validateUuidBytes(bytes)) {
+      return new TnidParseIssue(
+        TnidParseErrorCode.NOT_UUIDV8,
+        "Invalid TNID: not a valid UUIDv8",
+      );
+    }
+
+    const valueNameBits = extractNameBitsFromBytes(bytes);
+    if (valueNameBits !== nameBits) {
+      const foundName = tryDecodeName(valueNameBits);
+      if (foundName instanceof TnidParseIssue) return foundName;
+      if (foundName === null) {
+        return new TnidParseIssue(
+          TnidParseErrorCode.BAD_NAME_ENCODING,
+          `TNID name mismatch: expected "${name}", got invalid name bits 0x${
+            valueNameBits.toString(16).padStart(5, "0")
+          }`,
+        );
+      }
+      return new TnidParseIssue(
+        TnidParseErrorCode.NAME_MISMATCH,
+        `TNID name mismatch: expected "${name}", got "${foundName}"`,
+      );
+    }
+
+    return tnidStringFromBytes(bytes) as StrictTnidValue<Name>;
+  }
+
+  function fromBytes(bytes: Uint8Array): StrictTnidValue<Name> {
+    return unwrapParseImpl(tryFromBytes(bytes));
+  }
+
+  function tryParseTnidString(
+    s: string,
+  ): StrictTnidValue<Name> | TnidParseIssue {
+    const dotIndex = s.indexOf(".");
+    if (dotIndex === -1) {
+      return new TnidParseIssue(
+        TnidParseErrorCode.BAD_SEPARATOR,
+        `Invalid TNID string: missing '.' separator`,
+      );
+    }
+
+    const parsedName = s.substring(0, dotIndex);
+    const dataEncoded = s.substring(dotIndex + 1);
+
+    if (parsedName !== name) {
+      return new TnidParseIssue(
+        TnidParseErrorCode.NAME_MISMATCH,
+        `TNID name mismatch: expected "${name}", got "${parsedName}"`,
+      );
+    }
+
+    const nameIssue = checkValidNameRuntime(
+      parsedName,
+      `Invalid TNID name in string: "${parsedName}"`,
+    );
+    if (nameIssue) return nameIssue;
+
+    // Validate data portion
+    const reconstructed = tryDecodeData(dataEncoded, nameBits, dotIndex + 1);
+    if (reconstructed instanceof TnidParseIssue) return reconstructed;
+
+    // Verify we can reconstruct it (validates the encoding)
+    const reencoded = encodeData(reconstructed);
+
+    if (reencoded !== dataEncoded) {
+      return new TnidParseIssue(
+        TnidParseErrorCode.NON_CANONICAL,
+        `Invalid TNID data encoding`,
+      );
+    }
+
+    return s as StrictTnidValue<Name>;
+  }
+
+  function tryParseUuidString(
+    uuid: string,
+  ): StrictTnidValue<Name> | TnidParseIssue {
+    const bytes = tryParseUuidStringToBytes(uuid);
+    if (bytes instanceof TnidParseIssue) return bytes;
+    return tryFromBytes(bytes);
+  }
+
+  /** Parse a TNID string or UUID string, auto-detected by length. */
+  function tryParse(s: string): StrictTnidValue<Name> | TnidParseIssue {
+    if (
+      s.length >= MIN_TNID_LEN && s.length <= MAX_TNID_LEN && s.includes(".")
+    ) {
+      return tryParseTnidString(s);
+    } else if (s.length >= MIN_TNID_LEN && s.length <= MAX_TNID_LEN) {
+      return new TnidParseIssue(
+        TnidParseErrorCode.BAD_SEPARATOR,
+        `Invalid TNID string: missing '.' separator`,
+      );
+    } else if (s.length === UUID_LEN) {
+      return tryParseUuidString(s);
+    } else {
+      return new TnidParseIssue(
+        TnidParseErrorCode.BAD_LENGTH,
+        `Invalid TNID: expected TNID string (${MIN_TNID_LEN}-${MAX_TNID_LEN} chars) or UUID (${UUID_LEN} chars), got ${s.length} chars`,
+      );
+    }
+  }
+
   const tnid: NamedTnid<Name> = {
     name: name as Name,
 
-    new_v0(): TnidValue<Name> {
-      const bytes = generateV0(nameBits);
-      const dataEncoded = encodeData(bytes);
-      return `${name}.${dataEncoded}` as TnidValue<Name>;
+    "~standard": standardSchemaImpl(tryParse),
+
+    source,
+
+    new_v0(): StrictTnidValue<Name> {
+      const words = generateV0(nameBits, undefined, undefined, source);
+      const dataEncoded = encodeData(words);
+      return `${name}.${dataEncoded}` as StrictTnidValue<Name>;
     },
 
-    new_v1(): TnidValue<Name> {
-      const bytes = generateV1(nameBits);
-      const dataEncoded = encodeData(bytes);
-      return `${name}.${dataEncoded}` as TnidValue<Name>;
+    new_v0_monotonic(): StrictTnidValue<Name> {
+      const { timestampMs, randomBits } = monotonic.next();
+      const words = generateV0(nameBits, timestampMs, randomBits);
+      const dataEncoded = encodeData(words);
+      return `${name}.${dataEncoded}` as StrictTnidValue<Name>;
     },
 
-    v0_from_parts(timestampMs: bigint, randomBits: bigint): TnidValue<Name> {
-      const bytes = generateV0(nameBits, timestampMs, randomBits);
-      const dataEncoded = encodeData(bytes);
-      return `${name}.${dataEncoded}` as TnidValue<Name>;
+    new_v1(): StrictTnidValue<Name> {
+      const words = generateV1(nameBits, undefined, source);
+      const dataEncoded = encodeData(words);
+      return `${name}.${dataEncoded}` as StrictTnidValue<Name>;
     },
 
-    v1_from_parts(randomBits: bigint): TnidValue<Name> {
-      const bytes = generateV1(nameBits, randomBits);
-      const dataEncoded = encodeData(bytes);
-      return `${name}.${dataEncoded}` as TnidValue<Name>;
+    new_v0_batch(
+      count: number,
+      batchOptions: V0BatchOptions = {},
+    ): StrictTnidValue<Name>[] {
+      return takeImpl(tnid.iter_v0(batchOptions), count);
     },
 
-    parse(s: string): TnidValue<Name> {
-      if (
-        s.length >= MIN_TNID_LEN && s.length <= MAX_TNID_LEN && s.includes(".")
-      ) {
-        return tnid.parseTnidString(s);
-      } else if (s.length >= MIN_TNID_LEN && s.length <= MAX_TNID_LEN) {
-        throw new Error(`Invalid TNID string: missing '.' separator`);
-      } else if (s.length === UUID_LEN) {
-        return tnid.parseUuidString(s);
-      } else {
-        throw new Error(
-          `Invalid TNID: expected TNID string (${MIN_TNID_LEN}-${MAX_TNID_LEN} chars) or UUID (${UUID_LEN} chars), got ${s.length} chars`,
-        );
-      }
+    new_v1_batch(count: number): StrictTnidValue<Name>[] {
+      return takeImpl(tnid.iter_v1(), count);
     },
 
-    parseTnidString(s: string): TnidValue<Name> {
-      const dotIndex = s.indexOf(".");
-      if (dotIndex === -1) {
-        throw new Error(`Invalid TNID string: missing '.' separator`);
-      }
+    iter_v0(
+      batchOptions: V0BatchOptions = {},
+    ): IterableIterator<StrictTnidValue<Name>> {
+      return iterV0Impl(
+        name,
+        nameBits,
+        options,
+        batchOptions.monotonic ? monotonic : undefined,
+      ) as IterableIterator<StrictTnidValue<Name>>;
+    },
 
-      const parsedName = s.substring(0, dotIndex);
-      const dataEncoded = s.substring(dotIndex + 1);
+    iter_v1(): IterableIterator<StrictTnidValue<Name>> {
+      return iterV1Impl(name, nameBits, options) as IterableIterator<
+        StrictTnidValue<Name>
+      >;
+    },
 
-      if (parsedName !== name) {
-        throw new Error(
-          `TNID name mismatch: expected "${name}", got "${parsedName}"`,
-        );
-      }
+    v0_from_parts(
+      timestampMs: bigint,
+      randomBits: bigint,
+    ): StrictTnidValue<Name> {
+      const words = generateV0(nameBits, timestampMs, randomBits);
+      const dataEncoded = encodeData(words);
+      return `${name}.${dataEncoded}` as StrictTnidValue<Name>;
+    },
 
-      if (!isValidNameRuntime(parsedName)) {
-        throw new Error(`Invalid TNID name in string: "${parsedName}"`);
-      }
+    v1_from_parts(randomBits: bigint): StrictTnidValue<Name> {
+      const words = generateV1(nameBits, randomBits);
+      const dataEncoded = encodeData(words);
+      return `${name}.${dataEncoded}` as StrictTnidValue<Name>;
+    },
 
-      // Validate data portion
-      const { dataBits } = decodeData(dataEncoded);
+    async fromHash(
+      namespace: string,
+      input: string,
+    ): Promise<StrictTnidValue<Name>> {
+      const payload = await hashPayloadImpl(namespace, input);
+      return tnid.v1_from_parts(expandPayloadBits(payload));
+    },
 
-      // Verify we can reconstruct it (validates the encoding)
-      const reconstructed = dataBitsToBytes(dataBits, nameBits);
-      const reencoded = encodeData(reconstructed);
+    new_v2(payload: TnidPayload<"v2">): StrictTnidValue<Name> {
+      return newPayloadTnidImpl(
+        name,
+        nameBits,
+        "v2",
+        payload,
+      ) as StrictTnidValue<
+        Name
+      >;
+    },
 
-      if (reencoded !== dataEncoded) {
-        throw new Error(`Invalid TNID data encoding`);
-      }
+    new_v3(payload: TnidPayload<"v3">): StrictTnidValue<Name> {
+      return newPayloadTnidImpl(
+        name,
+        nameBits,
+        "v3",
+        payload,
+      ) as StrictTnidValue<
+        Name
+      >;
+    },
 
-      return s as TnidValue<Name>;
+    decodeV2(id: TnidValue<Name>): TnidPayload<"v2"> {
+      return decodePayloadTnidImpl(id as DynamicTnid, "v2") as TnidPayload<
+        "v2"
+      >;
     },
 
-    parseUuidString(uuid: string): TnidValue<Name> {
-      const value = parseUuidStringToValue(uuid);
+    decodeV3(id: TnidValue<Name>): TnidPayload<"v3"> {
+      return decodePayloadTnidImpl(id as DynamicTnid, "v3") as TnidPayload<
+        "v3"
+      >;
+    },
 
-      if (!validateUuidBits(value)) {
-        throw new Error("Invalid TNID: not a valid UUIDv8");
-      }
+    parse(s: string): StrictTnidValue<Name> {
+      return unwrapParseImpl(tryParse(s));
+    },
 
-      const uuidNameBits = extractNameBitsFromValue(value);
-      if (uuidNameBits !== nameBits) {
-        const foundName = decodeName(uuidNameBits);
-        if (foundName === null) {
-          throw new Error(
-            `TNID name mismatch: expected "${name}", got invalid name bits 0x${
-              uuidNameBits.toString(16).padStart(5, "0")
-            }`,
-          );
-        }
-        throw new Error(
-          `TNID name mismatch: expected "${name}", got "${foundName}"`,
-        );
-      }
+    parseTnidString(s: string): StrictTnidValue<Name> {
+      return unwrapParseImpl(tryParseTnidString(s));
+    },
+
+    parseUuidString(uuid: string): StrictTnidValue<Name> {
+      return unwrapParseImpl(tryParseUuidString(uuid));
+    },
+
+    safeParse(s: string): ParseResult<StrictTnidValue<Name>> {
+      return parseResultImpl(tryParse(s));
+    },
+
+    is(value: unknown): value is StrictTnidValue<Name> {
+      return typeof value === "string" && value.startsWith(`${name}.`) &&
+        !(tryParseTnidString(value) instanceof TnidParseIssue);
+    },
+
+    toBytes(id: TnidValue<Name>): Uint8Array {
+      return toBytesImpl(id as DynamicTnid);
+    },
+
+    fromBytes(bytes: Uint8Array): StrictTnidValue<Name> {
+      return fromBytes(checkedBytes(bytes));
+    },
+
+    toBigInt(id: TnidValue<Name>): bigint {
+      return toValueImpl(id as DynamicTnid);
+    },
 
-      return valueToTnidString(value) as TnidValue<Name>;
+    fromBigInt(value: bigint): StrictTnidValue<Name> {
+      return fromBytes(checkedBigIntToBytes(value));
     },
 
     nameHex(): string {
@@ -184,7 +425,40 @@ export function Tnid<const Name extends string>(
     toUuidString(id: TnidValue<Name>, caseFormat: Case = "lower"): string {
       return toUuidStringImpl(id as DynamicTnid, caseFormat === "upper");
     },
+
+    timestamp(id: TnidValue<Name>): Date {
+      return new Date(Number(getTimestampMillisImpl(id as DynamicTnid)));
+    },
+
+    timestampMillis(id: TnidValue<Name>): bigint {
+      return getTimestampMillisImpl(id as DynamicTnid);
+    },
+
+    randomBits(id: TnidValue<Name>): bigint {
+      return getRandomBitsImpl(id as DynamicTnid);
+    },
+
+    minForTime(time: Date): TnidBound<Name> {
+      return minForTimeImpl(name, nameBits, time) as TnidBound<Name>;
+    },
+
+    maxForTime(time: Date): TnidBound<Name> {
+      return maxForTimeImpl(name, nameBits, time) as TnidBound<Name>;
+    },
+
+    rangeForInterval(start: Date, end: Date): TnidRange<Name> {
+      return rangeForIntervalImpl(name, nameBits, start, end) as TnidRange<
+        Name
+      >;
+    },
   };
 
   return tnid;
 }
+
+/**
+ * Create a NamedTnid for the given name. See `TnidFunction` for details.
+ */
+export const Tnid: TnidFunction = Object.assign(createTnid, {
+  union: unionImpl,
+});
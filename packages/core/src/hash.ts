@@ -0,0 +1,42 @@
+// =============================================================================
+// Hash-Derived TNIDs
+// Deterministic payload bits from a namespace and an input, like UUIDv5
+// =============================================================================
+
+import { crypto } from "./crypto.ts";
+
+const encoder = new TextEncoder();
+
+/**
+ * Derive 100 payload bits from `namespace` and `input`:
+ *
+ * 1. message = 4-byte big-endian byte length of UTF-8(namespace)
+ *    || UTF-8(namespace) || UTF-8(input)
+ * 2. digest = SHA-256(message)
+ * 3. payload = the first 100 bits of digest (big-endian)
+ *
+ * The length prefix keeps e.g. ("ab", "c") and ("a", "bc") apart.
+ */
+export async function hashPayloadImpl(
+  namespace: string,
+  input: string,
+): Promise<bigint> {
+  if (!crypto.subtle) {
+    throw new Error(
+      "globalThis.crypto.subtle is not available. " +
+        "Hash-derived TNIDs require SHA-256 from the Web Crypto API (a secure context in browsers).",
+    );
+  }
+
+  const ns = encoder.encode(namespace);
+  const data = encoder.encode(input);
+  const message = new Uint8Array(4 + ns.length + data.length);
+  new DataView(message.buffer).setUint32(0, ns.length);
+  message.set(ns, 4);
+  message.set(data, 4 + ns.length);
+
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", message));
+  let bits = 0n;
+  for (let i = 0; i < 13; i++) bits = (bits << 8n) | BigInt(digest[i]);
+  return bits >> 4n; // 104 bits read, keep the first 100
+}
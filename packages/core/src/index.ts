@@ -6,9 +6,19 @@
 export type {
   Case,
   NamedTnid,
+  ParseResult,
+  StrictTnidValue,
+  TnidBound,
+  TnidInspection,
+  TnidMatchHandlers,
+  TnidRange,
+  TnidStrictType,
+  TnidString,
   TnidType,
+  TnidUnion,
   TnidValue,
   TnidVariant,
+  V0BatchOptions,
   ValidateName,
 } from "./types.ts";
 
@@ -19,4 +29,56 @@ export { DynamicTnid } from "./dynamic.ts";
 export { UuidLike } from "./uuidlike.ts";
 
 // Tnid function
-export { Tnid } from "./factory.ts";
+export { Tnid, type TnidFunction } from "./factory.ts";
+
+// TnidRegistry (type + function merged in registry.ts)
+export {
+  TnidRegistry,
+  type TnidRegistryEntry,
+  type TnidRegistryType,
+} from "./registry.ts";
+
+// Time and randomness sources
+export {
+  getDefaultTnidSource,
+  setDefaultTnidSource,
+  type TnidOptions,
+  type TnidSource,
+} from "./source.ts";
+
+// V2/V3 payload layouts
+export {
+  getTnidPayloadLayout,
+  setTnidPayloadLayout,
+  type TnidPayload,
+  type TnidPayloadLayout,
+  type TnidPayloads,
+  type TnidPayloadVariant,
+} from "./payload.ts";
+
+// JSON Schema / OpenAPI generation
+export {
+  type TnidJsonSchema,
+  type TnidJsonSchemaOptions,
+  type TnidOpenApiComponents,
+  type TnidOpenApiOptions,
+  toJsonSchema,
+  toOpenApiComponents,
+} from "./json_schema.ts";
+
+// Standard Schema interface (implemented by NamedTnid, DynamicTnid, UuidLike)
+export type {
+  StandardSchemaV1,
+  StandardSchemaV1Issue,
+  StandardSchemaV1Props,
+  StandardSchemaV1Result,
+  TnidStandardSchemaIssue,
+} from "./standard_schema.ts";
+
+// Error types
+export {
+  TnidParseError,
+  TnidParseErrorCode,
+  type TnidParseErrorDetails,
+  TnidVariantError,
+} from "./errors.ts";
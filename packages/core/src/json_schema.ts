@@ -0,0 +1,233 @@
+// =============================================================================
+// JSON Schema / OpenAPI Generation
+// Describe TNID strings (or their UUID form) precisely in API specs
+// =============================================================================
+
+import type { NamedTnid, TnidVariant } from "./types.ts";
+import type { TnidRegistry } from "./registry.ts";
+import {
+  DATA_CHAR_ENCODING_LEN,
+  DATA_ENCODING_ORDER,
+} from "./data_encoding.ts";
+
+/** Options for `toJsonSchema`. */
+export interface TnidJsonSchemaOptions {
+  /**
+   * Which string form the schema describes: `"tnid"` (e.g.
+   * `"user.Br2flcNDfF6LYICnT"`, the default) or `"uuid"` (e.g.
+   * `"d6157337-0ebc-8686-83ab-4075a34cdcde"`, either case).
+   */
+  representation?: "tnid" | "uuid";
+  /** Only accept these variants. Defaults to all of them. */
+  variants?: readonly TnidVariant[];
+  /**
+   * Example values. Defaults to a fixed V0 and V1 example of each accepted
+   * variant, so generated specs are stable.
+   */
+  examples?: readonly string[];
+  /** Schema description. Defaults to one naming the TNID name and form. */
+  description?: string;
+}
+
+/** A JSON Schema (draft 2020-12, as used by OpenAPI 3.1) for a TNID string. */
+export interface TnidJsonSchema {
+  type: "string";
+  /** `"tnid"` for the TNID string form, `"uuid"` for the UUID form. */
+  format: "tnid" | "uuid";
+  pattern: string;
+  minLength: number;
+  maxLength: number;
+  description: string;
+  examples?: string[];
+}
+
+/** Options for `toOpenApiComponents`. */
+export interface TnidOpenApiOptions
+  extends Omit<TnidJsonSchemaOptions, "examples" | "description"> {
+  /**
+   * Name of the component schema for a TNID name. Defaults to the name with
+   * its first letter capitalized and `Id` appended, e.g. `"UserId"`.
+   */
+  componentName?: (name: string) => string;
+}
+
+/** The `components` section of an OpenAPI document. */
+export interface TnidOpenApiComponents {
+  schemas: Record<string, TnidJsonSchema>;
+}
+
+const ALL_VARIANTS: readonly TnidVariant[] = ["v0", "v1", "v2", "v3"];
+const VARIANT_BITS: Record<TnidVariant, number> = {
+  v0: 0,
+  v1: 1,
+  v2: 2,
+  v3: 3,
+};
+
+// The TNID variant is the low 2 bits of the 7th data character (see the bit
+// layout in data_encoding.ts), and of the first hex digit of the 4th UUID group
+const VARIANT_CHAR_INDEX = 6;
+const DATA_CHAR_CLASS = "[-0-9A-Z_a-z]";
+const HEX_CHAR_CLASS = "[0-9a-fA-F]";
+const UUID_LEN = 36;
+
+// Fixed example parts: 2025-01-01T00:00:00Z and arbitrary random bits
+const EXAMPLE_TIMESTAMP_MS = 1735689600000n;
+const EXAMPLE_V0_RANDOM = 0x0123456789abcdefn;
+const EXAMPLE_V1_RANDOM = 0x0123456789abcdef0123456789abcdefn;
+
+/** Character class of the data characters whose low 2 bits are one of `variants`. */
+function variantDataCharClass(variants: readonly TnidVariant[]): string {
+  const bits = new Set(variants.map((v) => VARIANT_BITS[v]));
+  let chars = "";
+  for (let i = 0; i < DATA_ENCODING_ORDER.length; i++) {
+    if (bits.has(i & 3)) chars += DATA_ENCODING_ORDER[i];
+  }
+  // "-" is the first character, so it's literal in a character class
+  return `[${chars}]`;
+}
+
+/** Character class matching any of the hex `digits`, in either case. */
+function hexCharClass(digits: string): string {
+  const chars = new Set([...digits.toLowerCase(), ...digits.toUpperCase()]);
+  return chars.size === 1 ? [...chars][0] : `[${[...chars].join("")}]`;
+}
+
+function tnidPattern(name: string, variants: readonly TnidVariant[]): string {
+  if (variants.length === ALL_VARIANTS.length) {
+    return `^${name}\\.${DATA_CHAR_CLASS}{${DATA_CHAR_ENCODING_LEN}}$`;
+  }
+  const after = DATA_CHAR_ENCODING_LEN - VARIANT_CHAR_INDEX - 1;
+  return `^${name}\\.${DATA_CHAR_CLASS}{${VARIANT_CHAR_INDEX}}${
+    variantDataCharClass(variants)
+  }${DATA_CHAR_CLASS}{${after}}$`;
+}
+
+function uuidPattern(
+  nameHex: string,
+  variants: readonly TnidVariant[],
+): string {
+  // The 4th group starts with the UUID variant bits (10) then the TNID variant
+  const variantDigits = variants.map((v) => "89ab"[VARIANT_BITS[v]]).join("");
+  const name = [...nameHex].map(hexCharClass).join("");
+  const hex = HEX_CHAR_CLASS;
+  return `^${name}${hex}{3}-${hex}{4}-8${hex}{3}-${
+    hexCharClass(variantDigits)
+  }${hex}{3}-${hex}{12}$`;
+}
+
+function defaultExamples<Name extends string>(
+  tnid: NamedTnid<Name>,
+  variants: readonly TnidVariant[],
+): string[] {
+  const examples: string[] = [];
+  if (variants.includes("v0")) {
+    examples.push(tnid.v0_from_parts(EXAMPLE_TIMESTAMP_MS, EXAMPLE_V0_RANDOM));
+  }
+  if (variants.includes("v1")) {
+    examples.push(tnid.v1_from_parts(EXAMPLE_V1_RANDOM));
+  }
+  return examples;
+}
+
+/**
+ * Generate a JSON Schema for the TNIDs of a NamedTnid, with a `pattern` that
+ * accepts exactly the strings its `parseTnidString` (or, for the UUID
+ * representation, `parseUuidString`) accepts.
+ *
+ * @example
+ * ```ts
+ * toJsonSchema(UserId);
+ * // {
+ * //   type: "string",
+ * //   format: "tnid",
+ * //   pattern: "^user\\.[-0-9A-Z_a-z]{17}$",
+ * //   ...
+ * // }
+ *
+ * toJsonSchema(UserId, { representation: "uuid", variants: ["v0"] });
+ * ```
+ */
+export function toJsonSchema<Name extends string>(
+  tnid: NamedTnid<Name>,
+  options: TnidJsonSchemaOptions = {},
+): TnidJsonSchema {
+  const representation = options.representation ?? "tnid";
+  const variants = ALL_VARIANTS.filter((v) =>
+    (options.variants ?? ALL_VARIANTS).includes(v)
+  );
+  if (variants.length === 0) {
+    throw new Error("Invalid JSON Schema options: variants must not be empty");
+  }
+
+  let examples = options.examples
+    ? [...options.examples]
+    : defaultExamples(tnid, variants);
+  const only = variants.length === ALL_VARIANTS.length
+    ? ""
+    : ` (${variants.join(", ")})`;
+
+  let schema: TnidJsonSchema;
+  if (representation === "uuid") {
+    if (!options.examples) {
+      examples = examples.map((id) => tnid.toUuidString(tnid.parse(id)));
+    }
+    schema = {
+      type: "string",
+      format: "uuid",
+      pattern: uuidPattern(tnid.nameHex(), variants),
+      minLength: UUID_LEN,
+      maxLength: UUID_LEN,
+      description: options.description ??
+        `"${tnid.name}" TNID${only} in UUID form`,
+    };
+  } else {
+    const length = tnid.name.length + 1 + DATA_CHAR_ENCODING_LEN;
+    schema = {
+      type: "string",
+      format: "tnid",
+      pattern: tnidPattern(tnid.name, variants),
+      minLength: length,
+      maxLength: length,
+      description: options.description ?? `"${tnid.name}" TNID${only}`,
+    };
+  }
+
+  if (examples.length > 0) schema.examples = examples;
+  return schema;
+}
+
+/**
+ * Generate OpenAPI 3.1 component schemas for every NamedTnid in a registry,
+ * for use with `$ref: "#/components/schemas/UserId"`.
+ *
+ * @example
+ * ```ts
+ * const Ids = TnidRegistry(UserId, PostId);
+ *
+ * const spec = {
+ *   openapi: "3.1.0",
+ *   components: toOpenApiComponents(Ids), // { schemas: { UserId, PostId } }
+ * };
+ * ```
+ */
+export function toOpenApiComponents<Name extends string>(
+  registry: TnidRegistry<Name>,
+  options: TnidOpenApiOptions = {},
+): TnidOpenApiComponents {
+  const { componentName = defaultComponentName, ...schemaOptions } = options;
+
+  const schemas: Record<string, TnidJsonSchema> = {};
+  for (const name of registry.names) {
+    const key = componentName(name);
+    if (key in schemas) {
+      throw new Error(`Duplicate OpenAPI component name: "${key}"`);
+    }
+    schemas[key] = toJsonSchema(registry.get(name), schemaOptions);
+  }
+  return { schemas };
+}
+
+function defaultComponentName(name: string): string {
+  return `${name[0].toUpperCase()}${name.slice(1)}Id`;
+}
@@ -0,0 +1,64 @@
+// =============================================================================
+// Monotonic V0 Generation
+// Strictly increasing V0 TNIDs, even within a single millisecond
+// =============================================================================
+
+import { randomBigInt, V0_RANDOM_MASK } from "./bits.ts";
+import { resolveSource } from "./source.ts";
+
+const TIMESTAMP_MASK = (1n << 43n) - 1n;
+
+/** Timestamp and random components of a V0 TNID. */
+export interface V0Parts {
+  timestampMs: bigint;
+  randomBits: bigint;
+}
+
+/**
+ * Tracks the last issued V0 components so that every call to `next()` yields
+ * a strictly greater (timestamp, random) pair than the previous one.
+ *
+ * - A new millisecond starts from fresh random bits.
+ * - Within the same millisecond, the random bits are incremented by one.
+ * - If the random bits would overflow, the next millisecond is borrowed.
+ * - If the clock moves backwards, the last timestamp is kept and the random
+ *   bits keep incrementing until the clock catches up.
+ */
+export class MonotonicV0State {
+  private lastTimestamp = -1n;
+  private lastRandom = 0n;
+  private readonly clock: () => bigint;
+  private readonly random: () => bigint;
+
+  /**
+   * @param clock - Returns the current time in epoch milliseconds.
+   *   Defaults to the default `TnidSource`'s clock.
+   * @param random - Returns at least 57 random bits. Defaults to the default
+   *   `TnidSource`'s randomness.
+   */
+  constructor(
+    clock: () => bigint = () => BigInt(Math.floor(resolveSource().clock())),
+    random: () => bigint = () => randomBigInt(8),
+  ) {
+    this.clock = clock;
+    this.random = random;
+  }
+
+  /** Produce the components for the next V0 TNID. */
+  next(): V0Parts {
+    const now = this.clock() & TIMESTAMP_MASK;
+
+    if (now > this.lastTimestamp) {
+      this.lastTimestamp = now;
+      this.lastRandom = this.random() & V0_RANDOM_MASK;
+    } else if (this.lastRandom < V0_RANDOM_MASK) {
+      this.lastRandom += 1n;
+    } else {
+      // Random bits exhausted for this millisecond: borrow the next one
+      this.lastTimestamp += 1n;
+      this.lastRandom = this.random() & V0_RANDOM_MASK;
+    }
+
+    return { timestampMs: this.lastTimestamp, randomBits: this.lastRandom };
+  }
+}
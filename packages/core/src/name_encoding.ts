@@ -3,6 +3,12 @@
 // Valid characters: 0-4, a-z (31 chars + null terminator = 32 = 2^5)
 // =============================================================================
 
+import {
+  TnidParseError,
+  TnidParseErrorCode,
+  TnidParseIssue,
+} from "./errors.ts";
+
 /** Minimum number of characters in a TNID name. */
 export const NAME_MIN_CHARS = 1;
 /** Maximum number of characters in a TNID name. */
@@ -60,7 +66,11 @@ export function encodeName(name: string): number {
     if (i < name.length) {
       const value = NAME_CHAR_TO_VALUE[name[i]];
       if (value === undefined) {
-        throw new Error(`Invalid name character: ${name[i]}`);
+        throw new TnidParseError(
+          TnidParseErrorCode.BAD_NAME_ENCODING,
+          `Invalid name character: ${name[i]}`,
+          { position: i, character: name[i] },
+        );
       }
       result |= value;
     }
@@ -71,8 +81,16 @@ export function encodeName(name: string): number {
 
 /**
  * Decode 20 bits back to a name string.
+ * @throws TnidParseError if the bits are not a valid name encoding
  */
 export function decodeName(encoded: number): string | null {
+  const name = tryDecodeName(encoded);
+  if (name instanceof TnidParseIssue) throw name.toError();
+  return name;
+}
+
+/** Like `decodeName`, but returns a `TnidParseIssue` instead of throwing. */
+export function tryDecodeName(encoded: number): string | null | TnidParseIssue {
   let result = "";
   for (let i = 0; i < 4; i++) {
     const shift = (3 - i) * 5;
@@ -82,7 +100,8 @@ export function decodeName(encoded: number): string | null {
       for (let j = i + 1; j < 4; j++) {
         const nextShift = (3 - j) * 5;
         if ((encoded >> nextShift) & 0x1f) {
-          throw new Error(
+          return new TnidParseIssue(
+            TnidParseErrorCode.BAD_NAME_ENCODING,
             `Invalid name encoding: non-null value after null terminator`,
           );
         }
@@ -91,13 +110,47 @@ export function decodeName(encoded: number): string | null {
     }
     const char = NAME_VALUE_TO_CHAR[value];
     if (!char) {
-      throw new Error(`Invalid encoded name value: ${value}`);
+      return new TnidParseIssue(
+        TnidParseErrorCode.BAD_NAME_ENCODING,
+        `Invalid encoded name value: ${value}`,
+      );
     }
     result += char;
   }
   return result.length === 0 ? null : result;
 }
 
+/**
+ * Throw a `TnidParseError` describing why `name` is not a valid TNID name.
+ * Does nothing if the name is valid.
+ */
+export function assertValidNameRuntime(name: string, message: string): void {
+  const issue = checkValidNameRuntime(name, message);
+  if (issue) throw issue.toError();
+}
+
+/**
+ * Like `assertValidNameRuntime`, but returns the `TnidParseIssue` instead of
+ * throwing. Returns `undefined` if the name is valid.
+ */
+export function checkValidNameRuntime(
+  name: string,
+  message: string,
+): TnidParseIssue | undefined {
+  for (let i = 0; i < name.length; i++) {
+    if (!VALID_NAME_CHARS.has(name[i])) {
+      return new TnidParseIssue(TnidParseErrorCode.BAD_NAME_ENCODING, message, {
+        position: i,
+        character: name[i],
+      });
+    }
+  }
+  if (name.length < NAME_MIN_CHARS || name.length > NAME_MAX_CHARS) {
+    return new TnidParseIssue(TnidParseErrorCode.BAD_NAME_ENCODING, message);
+  }
+  return undefined;
+}
+
 /**
  * Validate a name at runtime.
  * Must be 1-4 characters, each being 0-4 or a-z.
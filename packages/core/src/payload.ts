@@ -0,0 +1,128 @@
+// =============================================================================
+// V2/V3 Payload Layouts
+// How the 100 data bits of the reserved variants are packed and unpacked
+// =============================================================================
+
+import { expandPayloadBits, extractPayloadBits } from "./bits.ts";
+import { TnidVariantError } from "./errors.ts";
+import type { TnidVariant } from "./types.ts";
+
+/** The reserved variants, whose 100 data bits have a user-defined layout. */
+export type TnidPayloadVariant = "v2" | "v3";
+
+/**
+ * Packs a payload into the 100 data bits of a V2 or V3 TNID and back. The
+ * name, UUID version/variant and TNID variant bits are set separately, so a
+ * layout only deals with its own fields.
+ *
+ * @example
+ * ```typescript
+ * // 32-bit tenant ID in the high bits, 68-bit sequence number in the low bits
+ * const tenantSequence: TnidPayloadLayout<{ tenant: number; seq: bigint }> = {
+ *   encode: ({ tenant, seq }) => (BigInt(tenant) << 68n) | seq,
+ *   decode: (bits) => ({
+ *     tenant: Number(bits >> 68n),
+ *     seq: bits & ((1n << 68n) - 1n),
+ *   }),
+ * };
+ * ```
+ */
+export interface TnidPayloadLayout<P> {
+  /** Pack `payload` into an integer from 0 to 2^100 - 1. */
+  encode(payload: P): bigint;
+  /** Unpack the 100 data bits of a TNID, as produced by `encode`. */
+  decode(bits: bigint): P;
+}
+
+/**
+ * Payload types of the registered layouts, keyed by variant. Empty by
+ * default, so payloads are the raw 100-bit integers; augment it to type
+ * `newV2` / `decodeV2` (and V3) with your layout's payload.
+ *
+ * @example
+ * ```typescript
+ * declare module "@tnid/core" {
+ *   interface TnidPayloads {
+ *     v2: { tenant: number; seq: bigint };
+ *   }
+ * }
+ * ```
+ */
+// deno-lint-ignore no-empty-interface
+export interface TnidPayloads {}
+
+/** The payload type of a variant: from `TnidPayloads`, or the raw 100 bits. */
+export type TnidPayload<V extends TnidPayloadVariant> = V extends
+  keyof TnidPayloads ? TnidPayloads[V] : bigint;
+
+const MAX_PAYLOAD_BITS = (1n << 100n) - 1n;
+
+/** Payloads are the 100 data bits themselves. */
+const RAW_LAYOUT: TnidPayloadLayout<bigint> = {
+  encode: (bits) => bits,
+  decode: (bits) => bits,
+};
+
+const layouts: Record<TnidPayloadVariant, TnidPayloadLayout<unknown>> = {
+  v2: RAW_LAYOUT as TnidPayloadLayout<unknown>,
+  v3: RAW_LAYOUT as TnidPayloadLayout<unknown>,
+};
+
+/** Reject variants without a payload layout (for untyped callers). */
+function checkedPayloadVariant(variant: TnidVariant): TnidPayloadVariant {
+  if (variant !== "v2" && variant !== "v3") {
+    throw new TnidVariantError("Payload layouts", variant);
+  }
+  return variant;
+}
+
+/**
+ * Register the payload layout used by `newV2` / `decodeV2` (or V3) of
+ * `DynamicTnid` and every `NamedTnid`. Call with no layout to restore the
+ * default, which treats payloads as the raw 100-bit integers.
+ *
+ * Takes effect immediately, including for `NamedTnid`s created earlier.
+ *
+ * @throws TnidVariantError if `variant` is not V2 or V3
+ */
+export function setTnidPayloadLayout<V extends TnidPayloadVariant>(
+  variant: V,
+  layout?: TnidPayloadLayout<TnidPayload<V>>,
+): void {
+  layouts[checkedPayloadVariant(variant)] =
+    (layout ?? RAW_LAYOUT) as TnidPayloadLayout<unknown>;
+}
+
+/** Get the payload layout currently registered for `variant`. */
+export function getTnidPayloadLayout<V extends TnidPayloadVariant>(
+  variant: V,
+): TnidPayloadLayout<TnidPayload<V>> {
+  return layouts[checkedPayloadVariant(variant)] as TnidPayloadLayout<
+    TnidPayload<V>
+  >;
+}
+
+/**
+ * Encode a payload with the layout of `variant` and scatter it into the
+ * data bit positions of a 128-bit ID.
+ */
+export function encodePayloadImpl(
+  variant: TnidPayloadVariant,
+  payload: unknown,
+): bigint {
+  const bits = layouts[variant].encode(payload);
+  if (typeof bits !== "bigint" || bits < 0n || bits > MAX_PAYLOAD_BITS) {
+    throw new RangeError(
+      `Invalid ${variant} payload: expected the layout to encode to 0 to 2^100 - 1, got ${bits}`,
+    );
+  }
+  return expandPayloadBits(bits);
+}
+
+/** Decode the data bits of a 128-bit ID with the layout of `variant`. */
+export function decodePayloadImpl(
+  variant: TnidPayloadVariant,
+  value: bigint,
+): unknown {
+  return layouts[variant].decode(extractPayloadBits(value));
+}
@@ -0,0 +1,134 @@
+// =============================================================================
+// TnidRegistry - Parse any registered TNID name
+// =============================================================================
+
+import type { NamedTnid, ParseResult, TnidValue } from "./types.ts";
+import {
+  DynamicTnid,
+  parseResultImpl,
+  tryParseDynamicImpl,
+  unwrapParseImpl,
+} from "./dynamic.ts";
+import { TnidParseErrorCode, TnidParseIssue } from "./errors.ts";
+
+/**
+ * A parsed TNID tagged with its name. For a registry of several names this
+ * is a discriminated union: narrowing on `name` narrows `id`.
+ */
+export type TnidRegistryEntry<Name extends string> = {
+  [N in Name]: { name: N; id: TnidValue<N> };
+}[Name];
+
+/** Extract the `TnidRegistryEntry` union from a TnidRegistry. */
+export type TnidRegistryType<T> = T extends TnidRegistry<infer N>
+  ? TnidRegistryEntry<N>
+  : never;
+
+/** A set of NamedTnids with unique names. */
+export interface TnidRegistry<Name extends string> {
+  /** Names of all registered NamedTnids, in registration order. */
+  readonly names: readonly Name[];
+
+  /**
+   * Create a new registry with a NamedTnid added. This registry is left
+   * unchanged, so its `names`, `has` and `parse` keep matching its type.
+   * @throws Error if a NamedTnid with the same name is already registered
+   */
+  register<N extends string>(tnid: NamedTnid<N>): TnidRegistry<Name | N>;
+
+  /** Whether a NamedTnid is registered for `name`. */
+  has(name: string): name is Name;
+
+  /** Get the NamedTnid registered for `name`. */
+  get<N extends Name>(name: N): NamedTnid<N>;
+
+  /**
+   * Parse a TNID of any registered name, from either TNID string format or
+   * UUID hex format (auto-detected).
+   * @throws TnidParseError if the string is invalid or its name is not registered
+   */
+  parse(s: string): TnidRegistryEntry<Name>;
+
+  /**
+   * Like `parse`, but returns a `ParseResult` instead of throwing.
+   */
+  safeParse(s: string): ParseResult<TnidRegistryEntry<Name>>;
+}
+
+/**
+ * Create a registry of NamedTnids, rejecting duplicate names.
+ *
+ * @example
+ * ```ts
+ * const UserId = Tnid("user");
+ * const PostId = Tnid("post");
+ *
+ * const Ids = TnidRegistry(UserId, PostId);
+ * type AnyId = TnidRegistryType<typeof Ids>;
+ *
+ * const entry = Ids.parse(input);
+ * if (entry.name === "user") {
+ *   entry.id; // TnidValue<"user">
+ * }
+ *
+ * // Modules can extend it into a new registry, duplicates throw
+ * const All = Ids.register(Tnid("cmnt"));
+ * ```
+ */
+export function TnidRegistry<T extends NamedTnid<string>[]>(
+  ...tnids: T
+): TnidRegistry<T[number]["name"]> {
+  const byName = new Map<string, NamedTnid<string>>();
+  for (const tnid of tnids) {
+    if (byName.has(tnid.name)) {
+      throw new Error(
+        `Duplicate TNID name: "${tnid.name}" is already registered`,
+      );
+    }
+    byName.set(tnid.name, tnid);
+  }
+  const names = [...byName.keys()];
+
+  function tryParse(s: string): TnidRegistryEntry<string> | TnidParseIssue {
+    const id = tryParseDynamicImpl(s);
+    if (id instanceof TnidParseIssue) return id;
+    const name = DynamicTnid.getName(id);
+    if (!byName.has(name)) {
+      return new TnidParseIssue(
+        TnidParseErrorCode.NAME_MISMATCH,
+        `TNID name mismatch: "${name}" is not registered`,
+      );
+    }
+    return { name, id };
+  }
+
+  const registry: TnidRegistry<string> = {
+    names,
+
+    register<N extends string>(tnid: NamedTnid<N>): TnidRegistry<string | N> {
+      return TnidRegistry(...byName.values(), tnid);
+    },
+
+    has(name: string): name is string {
+      return byName.has(name);
+    },
+
+    get<N extends string>(name: N): NamedTnid<N> {
+      const tnid = byName.get(name);
+      if (tnid === undefined) {
+        throw new Error(`TNID name not registered: "${name}"`);
+      }
+      return tnid as NamedTnid<N>;
+    },
+
+    parse(s: string): TnidRegistryEntry<string> {
+      return unwrapParseImpl(tryParse(s));
+    },
+
+    safeParse(s: string): ParseResult<TnidRegistryEntry<string>> {
+      return parseResultImpl(tryParse(s));
+    },
+  };
+
+  return registry as TnidRegistry<T[number]["name"]>;
+}
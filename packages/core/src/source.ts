@@ -0,0 +1,66 @@
+// =============================================================================
+// Time and Randomness Sources
+// Where generators get the current time and random bits from
+// =============================================================================
+
+import { crypto } from "./crypto.ts";
+
+/** Supplies the current time and random bits used to generate TNIDs. */
+export interface TnidSource {
+  /** Returns the current time in milliseconds since the Unix epoch. */
+  clock(): number;
+  /** Fills `bytes` with random bytes (same contract as `crypto.getRandomValues`). */
+  random(bytes: Uint8Array): void;
+}
+
+/**
+ * Options for `Tnid()`. Any member left out falls back to the default source
+ * (see `setDefaultTnidSource`).
+ */
+export type TnidOptions = Partial<TnidSource>;
+
+/** The real clock and the Web Crypto API. */
+const SYSTEM_SOURCE: TnidSource = {
+  clock: () => Date.now(),
+  random: (bytes) => {
+    crypto.getRandomValues(bytes);
+  },
+};
+
+let defaultSource: TnidSource = SYSTEM_SOURCE;
+
+/**
+ * Replace the clock and/or randomness used by `DynamicTnid` and by every
+ * `NamedTnid` that was not given its own. Intended for tests; call with no
+ * argument to restore the real clock and the Web Crypto API.
+ *
+ * Takes effect immediately, including for `NamedTnid`s created earlier.
+ * Monotonic generators keep their ordering guarantee across a change.
+ */
+export function setDefaultTnidSource(source: TnidOptions = {}): void {
+  defaultSource = {
+    clock: source.clock ?? SYSTEM_SOURCE.clock,
+    random: source.random ?? SYSTEM_SOURCE.random,
+  };
+}
+
+/** Get the source currently used when no per-`Tnid()` options are given. */
+export function getDefaultTnidSource(): TnidSource {
+  return defaultSource;
+}
+
+/** Resolve per-factory options against the current default source. */
+export function resolveSource(options?: TnidOptions): TnidSource {
+  if (options === undefined || (!options.clock && !options.random)) {
+    return defaultSource;
+  }
+  return {
+    clock: options.clock ?? defaultSource.clock,
+    random: options.random ?? defaultSource.random,
+  };
+}
+
+/** Whether random bits come straight from the Web Crypto API. */
+export function isSystemRandom(source: TnidSource): boolean {
+  return source.random === SYSTEM_SOURCE.random;
+}
@@ -0,0 +1,95 @@
+// =============================================================================
+// Standard Schema - https://standardschema.dev
+// Lets validation libraries (Zod, Valibot, ArkType, ...) use TNID parsers
+// =============================================================================
+
+import { type TnidParseErrorCode, TnidParseIssue } from "./errors.ts";
+
+/**
+ * The Standard Schema v1 interface, implemented by `NamedTnid`, `DynamicTnid`
+ * and `UuidLike`. Structurally identical to `StandardSchemaV1` from
+ * `@standard-schema/spec`, flattened out of its namespace.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  /** The Standard Schema properties. */
+  readonly "~standard": StandardSchemaV1Props<Input, Output>;
+}
+
+/**
+ * The properties under the `~standard` key of a Standard Schema. `Issue`
+ * narrows the issues a schema reports, e.g. to `TnidStandardSchemaIssue`.
+ */
+export interface StandardSchemaV1Props<
+  Input = unknown,
+  Output = Input,
+  Issue extends StandardSchemaV1Issue = StandardSchemaV1Issue,
+> {
+  /** The version number of the standard. */
+  readonly version: 1;
+  /** The vendor name of the schema library. */
+  readonly vendor: string;
+  /** Validates unknown input values. */
+  readonly validate: (
+    value: unknown,
+  ) =>
+    | StandardSchemaV1Result<Output, Issue>
+    | Promise<StandardSchemaV1Result<Output, Issue>>;
+  /** Inferred types associated with the schema (type-level only). */
+  readonly types?: { readonly input: Input; readonly output: Output };
+}
+
+/** The result of `~standard.validate`. */
+export type StandardSchemaV1Result<
+  Output,
+  Issue extends StandardSchemaV1Issue = StandardSchemaV1Issue,
+> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<Issue> };
+
+/** A validation issue. */
+export interface StandardSchemaV1Issue {
+  /** The error message of the issue. */
+  readonly message: string;
+  /** The path of the issue, if any. */
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+/** An issue reported by the TNID schemas, with the code of the parse error. */
+export interface TnidStandardSchemaIssue extends StandardSchemaV1Issue {
+  /**
+   * Machine-readable reason, as `TnidParseError.code`. Absent when the input
+   * is not a string.
+   */
+  readonly code?: TnidParseErrorCode;
+}
+
+/**
+ * Build `~standard` props that accept strings `tryParse` accepts. A returned
+ * `TnidParseIssue` becomes an issue with the same message and code.
+ */
+export function standardSchemaImpl<Output>(
+  tryParse: (s: string) => Output | TnidParseIssue,
+): StandardSchemaV1Props<string, Output, TnidStandardSchemaIssue> {
+  return {
+    version: 1,
+    vendor: "tnid",
+    validate(
+      value: unknown,
+    ): StandardSchemaV1Result<Output, TnidStandardSchemaIssue> {
+      if (typeof value !== "string") {
+        return {
+          issues: [{
+            message: `Expected a string, got ${
+              value === null ? "null" : typeof value
+            }`,
+          }],
+        };
+      }
+      const result = tryParse(value);
+      if (result instanceof TnidParseIssue) {
+        return { issues: [{ message: result.message, code: result.code }] };
+      }
+      return { value: result };
+    },
+  };
+}
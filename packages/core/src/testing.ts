@@ -0,0 +1,133 @@
+/**
+ * @tnid/core/testing - Deterministic sources for fixtures and snapshot tests.
+ *
+ * **NOT for production use.** IDs generated from a seeded source are fully
+ * predictable from the seed: they carry no real entropy and will collide
+ * with IDs generated anywhere else from the same seed.
+ *
+ * @example
+ * ```typescript
+ * import { DynamicTnid, setDefaultTnidSource, Tnid } from "@tnid/core";
+ * import { createSeededTnidSource } from "@tnid/core/testing";
+ *
+ * // Per factory
+ * const UserId = Tnid("user", createSeededTnidSource(42));
+ * UserId.new_v0(); // same ID on every run and every machine
+ *
+ * // Or for DynamicTnid and all factories without their own source
+ * setDefaultTnidSource(createSeededTnidSource("fixtures"));
+ * DynamicTnid.newV1("post");
+ * ```
+ *
+ * @module
+ */
+
+import type { TnidSource } from "./source.ts";
+
+/** Options for `createSeededTnidSource`. */
+export interface SeededTnidSourceOptions {
+  /** Time returned by the first `clock()` call. Defaults to 2020-01-01T00:00:00Z. */
+  startTime?: Date | number;
+  /** Milliseconds the clock advances after each `clock()` call. Defaults to 1. */
+  tickMs?: number;
+}
+
+const DEFAULT_START_TIME = Date.UTC(2020, 0, 1);
+
+/**
+ * Create a deterministic `TnidSource` from a seed, for stable fixture files
+ * and snapshots. Random bytes come from xoshiro128** and the clock starts at
+ * `startTime`, advancing by `tickMs` per call.
+ *
+ * **NOT for production use** - see the module documentation.
+ *
+ * @param seed - A safe integer or any string.
+ */
+export function createSeededTnidSource(
+  seed: number | string,
+  options: SeededTnidSourceOptions = {},
+): TnidSource {
+  const startTime = options.startTime ?? DEFAULT_START_TIME;
+  const tickMs = options.tickMs ?? 1;
+  let now = typeof startTime === "number" ? startTime : startTime.getTime();
+  if (!Number.isFinite(now) || !Number.isFinite(tickMs)) {
+    throw new Error(
+      "Invalid seeded source: startTime and tickMs must be finite",
+    );
+  }
+
+  const next = xoshiro128ss(seedState(seed));
+
+  return {
+    clock(): number {
+      const current = now;
+      now += tickMs;
+      return current;
+    },
+    random(bytes: Uint8Array): void {
+      for (let i = 0; i < bytes.length; i += 4) {
+        const word = next();
+        bytes[i] = word >>> 24;
+        if (i + 1 < bytes.length) bytes[i + 1] = word >>> 16;
+        if (i + 2 < bytes.length) bytes[i + 2] = word >>> 8;
+        if (i + 3 < bytes.length) bytes[i + 3] = word;
+      }
+    },
+  };
+}
+
+// -----------------------------------------------------------------------------
+// PRNG
+// -----------------------------------------------------------------------------
+
+/** Expand a seed into a non-zero 128-bit xoshiro state using splitmix32. */
+function seedState(seed: number | string): Uint32Array {
+  let h: number;
+  if (typeof seed === "string") {
+    // FNV-1a over UTF-16 code units
+    h = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+      h = Math.imul(h ^ seed.charCodeAt(i), 0x01000193);
+    }
+  } else {
+    if (!Number.isSafeInteger(seed)) {
+      throw new Error(
+        `Invalid seed: ${seed}. Must be a safe integer or a string`,
+      );
+    }
+    const high = Math.floor(seed / 2 ** 32);
+    h = (seed >>> 0) ^ Math.imul(high, 0x9e3779b9);
+  }
+
+  const state = new Uint32Array(4);
+  for (let i = 0; i < 4; i++) {
+    h = (h + 0x9e3779b9) | 0;
+    let z = h;
+    z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+    z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+    state[i] = z ^ (z >>> 16);
+  }
+  if ((state[0] | state[1] | state[2] | state[3]) === 0) state[0] = 1;
+  return state;
+}
+
+function rotl(x: number, k: number): number {
+  return (x << k) | (x >>> (32 - k));
+}
+
+/** xoshiro128** (Blackman & Vigna): returns unsigned 32-bit outputs. */
+function xoshiro128ss(s: Uint32Array): () => number {
+  return () => {
+    const result = Math.imul(rotl(Math.imul(s[1], 5), 7), 9) >>> 0;
+    const t = s[1] << 9;
+
+    s[2] ^= s[0];
+    s[3] ^= s[1];
+    s[1] ^= s[2];
+    s[0] ^= s[3];
+    s[2] ^= t;
+    s[3] = rotl(s[3], 11);
+
+    return result;
+  };
+}
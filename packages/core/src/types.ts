@@ -2,6 +2,14 @@
 // TNID Type Definitions
 // =============================================================================
 
+import type { TnidParseError } from "./errors.ts";
+import type { TnidPayload } from "./payload.ts";
+import type { TnidSource } from "./source.ts";
+import type {
+  StandardSchemaV1Props,
+  TnidStandardSchemaIssue,
+} from "./standard_schema.ts";
+
 // -----------------------------------------------------------------------------
 // Compile-time Name Validation Types
 // -----------------------------------------------------------------------------
@@ -115,50 +123,269 @@ export type ValidateName<S extends string> = ValidateNameChars<S> extends true
  */
 export type TnidValue<Name extends string> = string & { tnid: Name };
 
-/** TNID variant: v0=time-ordered, v1=random, v2/v3=reserved */
+/**
+ * The string shape of a TNID: its name, a `.`, then the encoded data.
+ *
+ * @example
+ * ```ts
+ * const fixture = "user.Br2flcNDfF6LYICnT" satisfies TnidString<"user">;
+ * ```
+ */
+export type TnidString<Name extends string> = `${Name}.${string}`;
+
+/**
+ * A `TnidValue` whose type also says it starts with `"<name>."`. Everything
+ * `NamedTnid` returns has this type, and it is assignable to `TnidValue`, so
+ * opting in (see `TnidStrictType`) is compatible with code using `TnidType`.
+ */
+export type StrictTnidValue<Name extends string> =
+  & TnidString<Name>
+  & { tnid: Name };
+
+/**
+ * TNID variant: v0=time-ordered, v1=random, v2/v3=reserved, with a
+ * user-defined payload layout (see `setTnidPayloadLayout`)
+ */
 export type TnidVariant = "v0" | "v1" | "v2" | "v3";
 
 /** Case for UUID hex string formatting. */
 export type Case = "lower" | "upper";
 
+/** A TNID in both string and UUID form, e.g. as a bound for a range query. */
+export interface TnidBound<Name extends string> {
+  /** TNID string form (e.g., "user.Br2flcNDfF6LYICnT"). */
+  tnid: TnidValue<Name>;
+  /** Lowercase UUID hex string form. */
+  uuid: string;
+}
+
+/** Inclusive lower and upper V0 TNID bounds for a time interval. */
+export interface TnidRange<Name extends string> {
+  min: TnidBound<Name>;
+  max: TnidBound<Name>;
+}
+
+/** Fields of every TNID, as returned by `DynamicTnid.inspect`. */
+interface TnidInspectionBase<Name extends string> {
+  /** TNID string form (e.g., "user.Br2flcNDfF6LYICnT"). */
+  tnid: TnidValue<Name>;
+  /** The name (e.g., "user"). */
+  name: Name;
+  /** The name bits as a 5-character hex string. */
+  nameHex: string;
+  /** Lowercase UUID hex string form. */
+  uuid: string;
+  /** Uppercase UUID hex string form. */
+  uuidUpper: string;
+  /** The 128-bit integer form. */
+  value: bigint;
+  /** The 16-byte (big-endian) binary form. */
+  bytes: Uint8Array;
+}
+
+/**
+ * All decoded fields of a TNID, discriminated by `variant`: V0 adds the
+ * creation time and random bits, V1 the random bits.
+ */
+export type TnidInspection<Name extends string = string> =
+  & TnidInspectionBase<Name>
+  & (
+    | {
+      variant: "v0";
+      /** Creation time. */
+      timestamp: Date;
+      /** Creation time in milliseconds since the Unix epoch. */
+      timestampMillis: bigint;
+      /** The 57 random bits. */
+      randomBits: bigint;
+    }
+    | {
+      variant: "v1";
+      /** The 100 random bits. */
+      randomBits: bigint;
+    }
+    | { variant: "v2" | "v3" }
+  );
+
+/**
+ * Result of a non-throwing parse: either the parsed value or the
+ * `TnidParseError` that the throwing variant would have thrown.
+ *
+ * @example
+ * ```ts
+ * const result = UserId.safeParse(input);
+ * if (result.ok) {
+ *   result.value; // UserId
+ * } else {
+ *   result.error.message;
+ * }
+ * ```
+ */
+export type ParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: TnidParseError };
+
 // -----------------------------------------------------------------------------
 // NamedTnid Interface
 // -----------------------------------------------------------------------------
 
+/** Options for generating V0 TNIDs in bulk. */
+export interface V0BatchOptions {
+  /**
+   * Guarantee strictly increasing IDs, sharing ordering with
+   * `new_v0_monotonic` / `newV0Monotonic`. Defaults to `false`.
+   */
+  monotonic?: boolean;
+}
+
 export interface NamedTnid<Name extends string> {
   /** The TNID name */
   readonly name: Name;
 
+  /**
+   * Standard Schema v1 support: validation libraries accept the NamedTnid
+   * itself as a schema. Validates like `parse`.
+   */
+  readonly "~standard": StandardSchemaV1Props<
+    string,
+    StrictTnidValue<Name>,
+    TnidStandardSchemaIssue
+  >;
+
+  /**
+   * The clock and randomness used by this NamedTnid's generators: the
+   * `Tnid()` options, falling back to the default source.
+   */
+  readonly source: TnidSource;
+
   /** Generate a new time-sortable TNID (variant 0) */
-  new_v0(): TnidValue<Name>;
+  new_v0(): StrictTnidValue<Name>;
+
+  /**
+   * Generate a new time-sortable TNID (variant 0) that sorts strictly after
+   * every TNID previously returned by this method on the same NamedTnid,
+   * even within the same millisecond or if the clock moves backwards.
+   */
+  new_v0_monotonic(): StrictTnidValue<Name>;
 
   /** Generate a new random TNID (variant 1) */
-  new_v1(): TnidValue<Name>;
+  new_v1(): StrictTnidValue<Name>;
+
+  /**
+   * Generate `count` new time-sortable TNIDs (variant 0), drawing random bits
+   * in bulk rather than per ID.
+   */
+  new_v0_batch(
+    count: number,
+    options?: V0BatchOptions,
+  ): StrictTnidValue<Name>[];
+
+  /** Generate `count` new random TNIDs (variant 1), drawing random bits in bulk. */
+  new_v1_batch(count: number): StrictTnidValue<Name>[];
+
+  /** Lazily generate an unbounded sequence of time-sortable TNIDs (variant 0). */
+  iter_v0(options?: V0BatchOptions): IterableIterator<StrictTnidValue<Name>>;
+
+  /** Lazily generate an unbounded sequence of random TNIDs (variant 1). */
+  iter_v1(): IterableIterator<StrictTnidValue<Name>>;
 
   /** Construct a V0 TNID from specific parts (for deterministic testing) */
-  v0_from_parts(timestampMs: bigint, randomBits: bigint): TnidValue<Name>;
+  v0_from_parts(timestampMs: bigint, randomBits: bigint): StrictTnidValue<Name>;
 
   /** Construct a V1 TNID from specific parts (for deterministic testing) */
-  v1_from_parts(randomBits: bigint): TnidValue<Name>;
+  v1_from_parts(randomBits: bigint): StrictTnidValue<Name>;
+
+  /**
+   * Derive a V1 TNID from `input`, e.g. an external key, so that the same
+   * `namespace` and `input` always give the same ID (like UUIDv5). Use a
+   * namespace per source of keys, e.g. `"stripe-customer"`.
+   *
+   * The 100 random bits are the first 100 bits of
+   * SHA-256(u32be(byteLength(ns)) || ns || input), with `namespace` and
+   * `input` UTF-8 encoded, placed like the bits of `v1_from_parts`.
+   *
+   * @example
+   * ```ts
+   * const id = await CustomerId.fromHash("stripe-customer", "cus_NffrFeUfNV2Hib");
+   * ```
+   */
+  fromHash(namespace: string, input: string): Promise<StrictTnidValue<Name>>;
+
+  /**
+   * Generate a TNID of the reserved variant 2, holding `payload` packed with
+   * the layout registered by `setTnidPayloadLayout("v2", ...)`.
+   * @throws RangeError if the layout encodes `payload` to more than 100 bits
+   */
+  new_v2(payload: TnidPayload<"v2">): StrictTnidValue<Name>;
+
+  /**
+   * Generate a TNID of the reserved variant 3, holding `payload` packed with
+   * the layout registered by `setTnidPayloadLayout("v3", ...)`.
+   * @throws RangeError if the layout encodes `payload` to more than 100 bits
+   */
+  new_v3(payload: TnidPayload<"v3">): StrictTnidValue<Name>;
+
+  /**
+   * Get the payload of a V2 TNID, unpacked with the registered layout.
+   * @throws TnidVariantError if the TNID is not V2
+   */
+  decodeV2(id: TnidValue<Name>): TnidPayload<"v2">;
+
+  /**
+   * Get the payload of a V3 TNID, unpacked with the registered layout.
+   * @throws TnidVariantError if the TNID is not V3
+   */
+  decodeV3(id: TnidValue<Name>): TnidPayload<"v3">;
 
   /**
    * Parse a TNID from either TNID string format or UUID hex format (auto-detected).
-   * @throws Error if the string is invalid or the name doesn't match
+   * @throws TnidParseError if the string is invalid or the name doesn't match
    */
-  parse(s: string): TnidValue<Name>;
+  parse(s: string): StrictTnidValue<Name>;
 
   /**
    * Parse and validate a TNID string (e.g., "user.Br2flcNDfF6LYICnT").
-   * @throws Error if the string is invalid or the name doesn't match
+   * @throws TnidParseError if the string is invalid or the name doesn't match
    */
-  parseTnidString(s: string): TnidValue<Name>;
+  parseTnidString(s: string): StrictTnidValue<Name>;
 
   /**
    * Parse a UUID hex string into a TNID.
    * Validates that it's a valid UUIDv8 TNID and the name matches.
-   * @throws Error if the UUID is invalid or the name doesn't match
+   * @throws TnidParseError if the UUID is invalid or the name doesn't match
+   */
+  parseUuidString(uuid: string): StrictTnidValue<Name>;
+
+  /**
+   * Like `parse`, but returns a `ParseResult` instead of throwing.
+   */
+  safeParse(s: string): ParseResult<StrictTnidValue<Name>>;
+
+  /**
+   * Whether `value` is a TNID string with this name. UUID strings are not
+   * accepted, since they don't have the TNID string shape.
+   */
+  is(value: unknown): value is StrictTnidValue<Name>;
+
+  /** Convert a TNID to the 16-byte (big-endian) binary form, as stored in a UUID column. */
+  toBytes(id: TnidValue<Name>): Uint8Array;
+
+  /**
+   * Parse the 16-byte binary form of a TNID.
+   * Validates that it's a valid UUIDv8 TNID and the name matches.
+   * @throws TnidParseError if the bytes are invalid or the name doesn't match
    */
-  parseUuidString(uuid: string): TnidValue<Name>;
+  fromBytes(bytes: Uint8Array): StrictTnidValue<Name>;
+
+  /** Convert a TNID to the 128-bit integer form. */
+  toBigInt(id: TnidValue<Name>): bigint;
+
+  /**
+   * Parse the 128-bit integer form of a TNID.
+   * Validates that it's a valid UUIDv8 TNID and the name matches.
+   * @throws TnidParseError if the value is invalid or the name doesn't match
+   */
+  fromBigInt(value: bigint): StrictTnidValue<Name>;
 
   /** Get the name encoded as a 5-character hex string. */
   nameHex(): string;
@@ -168,7 +395,88 @@ export interface NamedTnid<Name extends string> {
 
   /** Convert a TNID to UUID hex string format. */
   toUuidString(id: TnidValue<Name>, caseFormat?: Case): string;
+
+  /**
+   * Get the creation time of a V0 TNID.
+   * @throws TnidVariantError if the TNID is not V0
+   */
+  timestamp(id: TnidValue<Name>): Date;
+
+  /**
+   * Get the creation time of a V0 TNID in milliseconds since the Unix epoch.
+   * @throws TnidVariantError if the TNID is not V0
+   */
+  timestampMillis(id: TnidValue<Name>): bigint;
+
+  /**
+   * Get the random bits of a V0 or V1 TNID, in the form accepted by
+   * `v0_from_parts` / `v1_from_parts`.
+   * @throws TnidVariantError if the TNID is not V0 or V1
+   */
+  randomBits(id: TnidValue<Name>): bigint;
+
+  /** Get the smallest V0 TNID that can be generated at the given time. */
+  minForTime(time: Date): TnidBound<Name>;
+
+  /** Get the largest V0 TNID that can be generated at the given time. */
+  maxForTime(time: Date): TnidBound<Name>;
+
+  /**
+   * Get inclusive V0 TNID bounds covering every millisecond from `start` to
+   * `end`, for range scans over TNID strings or UUID columns.
+   */
+  rangeForInterval(start: Date, end: Date): TnidRange<Name>;
+}
+
+// -----------------------------------------------------------------------------
+// TnidUnion Interface
+// -----------------------------------------------------------------------------
+
+/** One handler per name, as passed to `TnidUnion.match`. */
+export type TnidMatchHandlers<Name extends string, R> = {
+  [N in Name]: (id: TnidValue<N>) => R;
+};
+
+/** A parser for TNIDs of any of several names, created by `Tnid.union`. */
+export interface TnidUnion<Name extends string> {
+  /** The accepted TNID names, in the order given to `Tnid.union`. */
+  readonly names: readonly Name[];
+
+  /**
+   * Parse a TNID of any accepted name, from either TNID string format or UUID
+   * hex format (auto-detected).
+   * @throws TnidParseError if the string is invalid or its name is not accepted
+   */
+  parse(s: string): TnidValue<Name>;
+
+  /**
+   * Like `parse`, but returns a `ParseResult` instead of throwing.
+   */
+  safeParse(s: string): ParseResult<TnidValue<Name>>;
+
+  /**
+   * Call the handler for the name of `id` and return its result. Handlers
+   * must cover every accepted name.
+   */
+  match<R>(id: TnidValue<Name>, handlers: TnidMatchHandlers<Name, R>): R;
 }
 
-/** Extract the `TnidValue` type from a NamedTnid. */
-export type TnidType<T> = T extends NamedTnid<infer N> ? TnidValue<N> : never;
+/** Extract the `TnidValue` type from a NamedTnid or TnidUnion. */
+export type TnidType<T> = T extends NamedTnid<infer N> ? TnidValue<N>
+  : T extends TnidUnion<infer N> ? TnidValue<N>
+  : never;
+
+/**
+ * Like `TnidType`, but extracts the `StrictTnidValue` type, so the ID type
+ * also checks the `"<name>."` prefix of string literals.
+ *
+ * @example
+ * ```ts
+ * const UserId = Tnid("user");
+ * type UserId = TnidStrictType<typeof UserId>; // `user.${string}` & { tnid: "user" }
+ * ```
+ */
+export type TnidStrictType<T> = T extends NamedTnid<infer N>
+  ? StrictTnidValue<N>
+  : T extends TnidUnion<infer N> ? StrictTnidValue<N>
+  : never;
@@ -0,0 +1,75 @@
+// =============================================================================
+// Tnid.union - Parse TNIDs of several names
+// =============================================================================
+
+import type {
+  NamedTnid,
+  ParseResult,
+  TnidMatchHandlers,
+  TnidUnion,
+  TnidValue,
+} from "./types.ts";
+import {
+  DynamicTnid,
+  parseResultImpl,
+  tryParseDynamicImpl,
+  unwrapParseImpl,
+} from "./dynamic.ts";
+import { TnidParseErrorCode, TnidParseIssue } from "./errors.ts";
+
+/** Implementation of `Tnid.union`. */
+export function unionImpl<T extends NamedTnid<string>[]>(
+  ...tnids: T
+): TnidUnion<T[number]["name"]> {
+  type Name = T[number]["name"];
+
+  if (tnids.length === 0) {
+    throw new Error("Tnid.union requires at least one NamedTnid");
+  }
+
+  const names = [...new Set(tnids.map((tnid) => tnid.name))] as Name[];
+  const expected = names.map((name) => `"${name}"`).join(", ");
+
+  function tryParse(s: string): TnidValue<Name> | TnidParseIssue {
+    const id = tryParseDynamicImpl(s);
+    if (id instanceof TnidParseIssue) return id;
+    const name = DynamicTnid.getName(id);
+    if (!names.includes(name)) {
+      return new TnidParseIssue(
+        TnidParseErrorCode.NAME_MISMATCH,
+        `TNID name mismatch: expected one of ${expected}, got "${name}"`,
+      );
+    }
+    return id as TnidValue<Name>;
+  }
+
+  const union: TnidUnion<Name> = {
+    names,
+
+    parse(s: string): TnidValue<Name> {
+      return unwrapParseImpl(tryParse(s));
+    },
+
+    safeParse(s: string): ParseResult<TnidValue<Name>> {
+      return parseResultImpl(tryParse(s));
+    },
+
+    match<R>(
+      id: TnidValue<Name>,
+      handlers: TnidMatchHandlers<Name, R>,
+    ): R {
+      const name = DynamicTnid.getName(id) as Name;
+      const handler = handlers[name] as
+        | ((id: TnidValue<Name>) => R)
+        | undefined;
+      if (!names.includes(name) || handler === undefined) {
+        throw new Error(
+          `No match handler for TNID name "${name}": expected one of ${expected}`,
+        );
+      }
+      return handler(id);
+    },
+  };
+
+  return union;
+}
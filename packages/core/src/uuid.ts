@@ -5,30 +5,160 @@
 import type { TnidVariant } from "./types.ts";
 import { decodeName } from "./name_encoding.ts";
 import { encodeData } from "./data_encoding.ts";
-import { valueToBytes } from "./bits.ts";
+import type { Words } from "./bits.ts";
+import {
+  bytesToValue,
+  bytesToWords,
+  valueToBytes,
+  valueToWords,
+} from "./bits.ts";
+import {
+  TnidParseError,
+  TnidParseErrorCode,
+  TnidParseIssue,
+} from "./errors.ts";
 
 export const UUID_REGEX =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
+const UUID_LEN = 36;
+const UUID_HYPHEN_POSITIONS = new Set([8, 13, 18, 23]);
+const HEX_CHAR_REGEX = /^[0-9a-f]$/i;
+
+// Lookup tables: byte -> two hex chars, and ASCII char code -> nibble (-1 = not hex)
+const BYTE_TO_HEX_LOWER: string[] = [];
+const BYTE_TO_HEX_UPPER: string[] = [];
+const HEX_CHAR_CODE_TO_NIBBLE = new Int8Array(128).fill(-1);
+for (let i = 0; i < 256; i++) {
+  BYTE_TO_HEX_LOWER[i] = i.toString(16).padStart(2, "0");
+  BYTE_TO_HEX_UPPER[i] = BYTE_TO_HEX_LOWER[i].toUpperCase();
+}
+for (let i = 0; i < 16; i++) {
+  HEX_CHAR_CODE_TO_NIBBLE[i.toString(16).charCodeAt(0)] = i;
+  HEX_CHAR_CODE_TO_NIBBLE[i.toString(16).toUpperCase().charCodeAt(0)] = i;
+}
+
+/** Convert a 128-bit value (as 32-bit words) to UUID hex string format */
+export function wordsToUuidString(
+  [w0, w1, w2, w3]: Words,
+  upperCase: boolean = false,
+): string {
+  const h = upperCase ? BYTE_TO_HEX_UPPER : BYTE_TO_HEX_LOWER;
+  return h[w0 >>> 24] + h[(w0 >>> 16) & 0xff] + h[(w0 >>> 8) & 0xff] +
+    h[w0 & 0xff] + "-" +
+    h[w1 >>> 24] + h[(w1 >>> 16) & 0xff] + "-" +
+    h[(w1 >>> 8) & 0xff] + h[w1 & 0xff] + "-" +
+    h[w2 >>> 24] + h[(w2 >>> 16) & 0xff] + "-" +
+    h[(w2 >>> 8) & 0xff] + h[w2 & 0xff] +
+    h[w3 >>> 24] + h[(w3 >>> 16) & 0xff] + h[(w3 >>> 8) & 0xff] +
+    h[w3 & 0xff];
+}
+
+/** Convert a 16-byte value to UUID hex string format */
+export function bytesToUuidString(
+  bytes: Uint8Array,
+  upperCase: boolean = false,
+): string {
+  return wordsToUuidString(bytesToWords(bytes), upperCase);
+}
+
 /** Convert a 128-bit value to UUID hex string format */
 export function valueToUuidString(
   value: bigint,
   upperCase: boolean = false,
 ): string {
-  const hex = value.toString(16).padStart(32, "0");
-  const uuid = `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${
-    hex.slice(16, 20)
-  }-${hex.slice(20)}`;
-  return upperCase ? uuid.toUpperCase() : uuid.toLowerCase();
+  return wordsToUuidString(valueToWords(value), upperCase);
+}
+
+/**
+ * Validate UUID hex string format (8-4-4-4-12).
+ * @throws TnidParseError pointing at the first offending character
+ */
+export function validateUuidFormat(uuid: string): void {
+  const issue = checkUuidFormat(uuid);
+  if (issue) throw issue.toError();
+}
+
+/**
+ * Like `validateUuidFormat`, but returns the `TnidParseIssue` instead of
+ * throwing. Returns `undefined` if the format is valid.
+ */
+export function checkUuidFormat(uuid: string): TnidParseIssue | undefined {
+  if (UUID_REGEX.test(uuid)) return undefined;
+
+  const message = `Invalid UUID format: ${uuid}`;
+  if (uuid.length !== UUID_LEN) {
+    return new TnidParseIssue(TnidParseErrorCode.BAD_LENGTH, message);
+  }
+  for (let i = 0; i < uuid.length; i++) {
+    const char = uuid[i];
+    if (UUID_HYPHEN_POSITIONS.has(i)) {
+      if (char !== "-") {
+        return new TnidParseIssue(TnidParseErrorCode.BAD_SEPARATOR, message, {
+          position: i,
+          character: char,
+        });
+      }
+    } else if (!HEX_CHAR_REGEX.test(char)) {
+      return new TnidParseIssue(TnidParseErrorCode.BAD_DATA_CHAR, message, {
+        position: i,
+        character: char,
+      });
+    }
+  }
+  return undefined;
+}
+
+/** The issue of a string the fast UUID parser rejected. */
+function uuidFormatIssue(uuid: string): TnidParseIssue {
+  return checkUuidFormat(uuid) ?? new TnidParseIssue(
+    TnidParseErrorCode.BAD_DATA_CHAR,
+    `Invalid UUID format: ${uuid}`,
+  );
+}
+
+/**
+ * Parse a UUID hex string to a 16-byte value
+ * @throws TnidParseError if the string is not a UUID
+ */
+export function parseUuidStringToBytes(uuid: string): Uint8Array {
+  const bytes = tryParseUuidStringToBytes(uuid);
+  if (bytes instanceof TnidParseIssue) throw bytes.toError();
+  return bytes;
+}
+
+/** Like `parseUuidStringToBytes`, but returns a `TnidParseIssue` instead of throwing. */
+export function tryParseUuidStringToBytes(
+  uuid: string,
+): Uint8Array | TnidParseIssue {
+  if (uuid.length !== UUID_LEN) return uuidFormatIssue(uuid);
+
+  const bytes = new Uint8Array(16);
+  let byteIndex = 0;
+  for (let i = 0; i < UUID_LEN; i += 2) {
+    if (i === 8 || i === 13 || i === 18 || i === 23) {
+      if (uuid.charCodeAt(i) !== 0x2d) return uuidFormatIssue(uuid);
+      i++;
+    }
+    const hi = uuid.charCodeAt(i);
+    const lo = uuid.charCodeAt(i + 1);
+    const hiNibble = hi < 128 ? HEX_CHAR_CODE_TO_NIBBLE[hi] : -1;
+    const loNibble = lo < 128 ? HEX_CHAR_CODE_TO_NIBBLE[lo] : -1;
+    // Fall back to the slow path only to build a precise issue
+    if (hiNibble < 0 || loNibble < 0) return uuidFormatIssue(uuid);
+    bytes[byteIndex++] = (hiNibble << 4) | loNibble;
+  }
+  return bytes;
 }
 
 /** Parse a UUID hex string to a 128-bit value */
 export function parseUuidStringToValue(uuid: string): bigint {
-  if (!UUID_REGEX.test(uuid)) {
-    throw new Error(`Invalid UUID format: ${uuid}`);
-  }
-  const hex = uuid.replace(/-/g, "");
-  return BigInt("0x" + hex);
+  return bytesToValue(parseUuidStringToBytes(uuid));
+}
+
+/** Extract name bits from a 16-byte TNID value */
+export function extractNameBitsFromBytes(bytes: Uint8Array): number {
+  return (bytes[0] << 12) | (bytes[1] << 4) | (bytes[2] >>> 4);
 }
 
 /** Extract name bits from a 128-bit TNID value */
@@ -43,6 +173,12 @@ export function extractVariantFromValue(value: bigint): TnidVariant {
   return variants[variantBits];
 }
 
+/** Validate that a 16-byte value has correct UUIDv8 version and variant bits */
+export function validateUuidBytes(bytes: Uint8Array): boolean {
+  // Version nibble is the high half of byte 6, variant the top 2 bits of byte 8
+  return (bytes[6] >>> 4) === 8 && (bytes[8] >>> 6) === 0b10;
+}
+
 /** Validate that a 128-bit value has correct UUIDv8 version and variant bits */
 export function validateUuidBits(value: bigint): boolean {
   // Check UUID version (bits 76-79 should be 0x8)
@@ -58,17 +194,24 @@ export function validateUuidBits(value: bigint): boolean {
 
 /** Convert bytes to TNID string */
 export function bytesToTnidString(bytes: Uint8Array, name: string): string {
-  const dataEncoded = encodeData(bytes);
+  const dataEncoded = encodeData(bytesToWords(bytes));
   return `${name}.${dataEncoded}`;
 }
 
-/** Convert 128-bit value to TNID string */
-export function valueToTnidString(value: bigint): string {
-  const nameBits = extractNameBitsFromValue(value);
+/** Convert 16-byte value to TNID string, decoding the name from its bits */
+export function tnidStringFromBytes(bytes: Uint8Array): string {
+  const nameBits = extractNameBitsFromBytes(bytes);
   const name = decodeName(nameBits);
   if (name === null) {
-    throw new Error("Invalid TNID: name bits are all zero");
+    throw new TnidParseError(
+      TnidParseErrorCode.BAD_NAME_ENCODING,
+      "Invalid TNID: name bits are all zero",
+    );
   }
-  const bytes = valueToBytes(value);
   return bytesToTnidString(bytes, name);
 }
+
+/** Convert 128-bit value to TNID string */
+export function valueToTnidString(value: bigint): string {
+  return tnidStringFromBytes(valueToBytes(value));
+}
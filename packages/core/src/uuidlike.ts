@@ -3,21 +3,32 @@
 // =============================================================================
 
 import type { DynamicTnid } from "./dynamic.ts";
+import type { ParseResult } from "./types.ts";
 
 /** A UUID hex string (xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx) that may or may not be a valid TNID. */
 export type UuidLike = string & { __uuidlike: true };
-import { decodeName, isValidNameRuntime } from "./name_encoding.ts";
+import type { TnidParseIssue } from "./errors.ts";
+import { checkUuidFormat } from "./uuid.ts";
 import {
-  extractNameBitsFromValue,
-  parseUuidStringToValue,
-  UUID_REGEX,
-  validateUuidBits,
-  valueToTnidString,
-} from "./uuid.ts";
-import { toUuidStringImpl } from "./dynamic.ts";
+  parseResultImpl,
+  toUuidStringImpl,
+  tryParseDynamicUuidStringImpl,
+  unwrapParseImpl,
+} from "./dynamic.ts";
+import {
+  standardSchemaImpl,
+  type StandardSchemaV1Props,
+  type TnidStandardSchemaIssue,
+} from "./standard_schema.ts";
 
 /** Interface for UuidLike static methods. */
 export interface UuidLikeNamespace {
+  /** Standard Schema v1 support. Validates like `parse`. */
+  readonly "~standard": StandardSchemaV1Props<
+    string,
+    UuidLike,
+    TnidStandardSchemaIssue
+  >;
   /** Create from a TNID (always valid). */
   fromTnid(id: DynamicTnid): UuidLike;
   /** Parse UUID hex string (format validation only, not TNID validation). */
@@ -26,36 +37,42 @@ export interface UuidLikeNamespace {
   toTnid(uuid: UuidLike): DynamicTnid;
   /** Format as uppercase UUID hex string. */
   toUpperCase(uuid: UuidLike): UuidLike;
+  /** Like `parse`, but returns a `ParseResult` instead of throwing. */
+  safeParse(s: string): ParseResult<UuidLike>;
+  /** Like `toTnid`, but returns a `ParseResult` instead of throwing. */
+  safeToTnid(uuid: UuidLike): ParseResult<DynamicTnid>;
+}
+
+/** Validate the UUID format only, normalizing to lowercase. */
+function tryParseImpl(s: string): UuidLike | TnidParseIssue {
+  return checkUuidFormat(s) ?? s.toLowerCase() as UuidLike;
 }
 
 /** Wrapper for UUID hex strings that may or may not be valid TNIDs. */
 export const UuidLike: UuidLikeNamespace = {
+  "~standard": standardSchemaImpl(tryParseImpl),
+
   fromTnid(id: DynamicTnid): UuidLike {
     return toUuidStringImpl(id, false) as UuidLike;
   },
 
   parse(s: string): UuidLike {
-    // Validate format only
-    if (!UUID_REGEX.test(s)) {
-      throw new Error(`Invalid UUID format: ${s}`);
-    }
-    return s.toLowerCase() as UuidLike;
+    return unwrapParseImpl(tryParseImpl(s));
   },
 
   toTnid(uuid: UuidLike): DynamicTnid {
-    const value = parseUuidStringToValue(uuid);
-    if (!validateUuidBits(value)) {
-      throw new Error("Invalid TNID: not a valid UUIDv8");
-    }
-    const nameBits = extractNameBitsFromValue(value);
-    const name = decodeName(nameBits);
-    if (name === null || !isValidNameRuntime(name)) {
-      throw new Error("Invalid TNID: invalid name encoding");
-    }
-    return valueToTnidString(value) as DynamicTnid;
+    return unwrapParseImpl(tryParseDynamicUuidStringImpl(uuid));
   },
 
   toUpperCase(uuid: UuidLike): UuidLike {
     return (uuid as string).toUpperCase() as UuidLike;
   },
+
+  safeParse(s: string): ParseResult<UuidLike> {
+    return parseResultImpl(tryParseImpl(s));
+  },
+
+  safeToTnid(uuid: UuidLike): ParseResult<DynamicTnid> {
+    return parseResultImpl(tryParseDynamicUuidStringImpl(uuid));
+  },
 };
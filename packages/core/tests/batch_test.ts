@@ -0,0 +1,127 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { DynamicTnid, Tnid } from "../src/index.ts";
+
+const UserId = Tnid("user");
+
+// =============================================================================
+// NamedTnid.new_v0_batch / new_v1_batch
+// =============================================================================
+
+Deno.test("batch: new_v0_batch returns valid, unique V0 IDs", () => {
+  const ids = UserId.new_v0_batch(5000);
+
+  assertEquals(ids.length, 5000);
+  assertEquals(new Set(ids).size, 5000);
+  for (const id of ids.slice(0, 100)) {
+    assertEquals(UserId.parse(id), id);
+    assertEquals(UserId.variant(id), "v0");
+  }
+});
+
+Deno.test("batch: new_v0_batch timestamps are current", () => {
+  const before = Date.now();
+  const ids = UserId.new_v0_batch(10);
+  const after = Date.now();
+
+  for (const id of ids) {
+    const ts = UserId.timestamp(id).getTime();
+    assertEquals(ts >= before && ts <= after, true);
+  }
+});
+
+Deno.test("batch: new_v1_batch returns valid, unique V1 IDs", () => {
+  // Larger than one entropy chunk, to cover the refill
+  const ids = UserId.new_v1_batch(20000);
+
+  assertEquals(ids.length, 20000);
+  assertEquals(new Set(ids).size, 20000);
+  for (const id of ids.slice(-100)) {
+    assertEquals(UserId.parse(id), id);
+    assertEquals(UserId.variant(id), "v1");
+  }
+});
+
+Deno.test("batch: monotonic option yields strictly increasing IDs", () => {
+  const ids = UserId.new_v0_batch(5000, { monotonic: true });
+
+  for (let i = 1; i < ids.length; i++) {
+    assertEquals(ids[i - 1] < ids[i], true, `${ids[i - 1]} >= ${ids[i]}`);
+  }
+  // Ordering is shared with new_v0_monotonic on the same NamedTnid
+  assertEquals(ids[ids.length - 1] < UserId.new_v0_monotonic(), true);
+});
+
+Deno.test("batch: empty batch", () => {
+  assertEquals(UserId.new_v0_batch(0), []);
+  assertEquals(DynamicTnid.newV1Batch("user", 0), []);
+});
+
+Deno.test("batch: rejects invalid counts", () => {
+  for (const count of [-1, 1.5, NaN, Infinity]) {
+    assertThrows(
+      () => UserId.new_v0_batch(count),
+      Error,
+      "Invalid batch size",
+    );
+    assertThrows(
+      () => DynamicTnid.newV1Batch("user", count),
+      Error,
+      "Invalid batch size",
+    );
+  }
+});
+
+// =============================================================================
+// Lazy Iterators
+// =============================================================================
+
+Deno.test("batch: iter_v0 / iter_v1 generate lazily", () => {
+  const v0 = UserId.iter_v0();
+  const v1 = UserId.iter_v1();
+
+  for (let i = 0; i < 10; i++) {
+    assertEquals(UserId.variant(v0.next().value), "v0");
+    assertEquals(UserId.variant(v1.next().value), "v1");
+  }
+});
+
+Deno.test("batch: iter_v0 works with for...of", () => {
+  const ids: string[] = [];
+  for (const id of UserId.iter_v0({ monotonic: true })) {
+    ids.push(id);
+    if (ids.length === 3) break;
+  }
+
+  assertEquals(ids.length, 3);
+  assertEquals(ids[0] < ids[1] && ids[1] < ids[2], true);
+});
+
+// =============================================================================
+// DynamicTnid
+// =============================================================================
+
+Deno.test("batch: DynamicTnid batches use the runtime name", () => {
+  const v0 = DynamicTnid.newV0Batch("post", 100, { monotonic: true });
+  const v1 = DynamicTnid.newV1Batch("post", 100);
+
+  for (let i = 1; i < v0.length; i++) {
+    assertEquals(v0[i - 1] < v0[i], true);
+  }
+  for (const id of [...v0, ...v1]) {
+    assertEquals(DynamicTnid.getName(id), "post");
+    assertEquals(DynamicTnid.parse(id), id);
+  }
+  assertEquals(DynamicTnid.getVariant(v0[0]), "v0");
+  assertEquals(DynamicTnid.getVariant(v1[0]), "v1");
+  assertEquals(DynamicTnid.getName(DynamicTnid.iterV1("a").next().value), "a");
+});
+
+Deno.test("batch: DynamicTnid rejects invalid names eagerly", () => {
+  assertThrows(() => DynamicTnid.iterV0("users"), Error, "Invalid TNID name");
+  assertThrows(() => DynamicTnid.iterV1("User"), Error, "Invalid TNID name");
+  assertThrows(
+    () => DynamicTnid.newV0Batch("users", 1),
+    Error,
+    "Invalid TNID name",
+  );
+});
@@ -0,0 +1,95 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { DynamicTnid, Tnid, TnidParseError } from "../src/index.ts";
+
+const UserId = Tnid("user");
+const PostId = Tnid("post");
+
+function uuidHex(uuid: string): string {
+  return uuid.replace(/-/g, "");
+}
+
+// =============================================================================
+// toBytes / fromBytes
+// =============================================================================
+
+Deno.test("binary: toBytes matches the UUID hex string", () => {
+  const id = UserId.new_v0();
+  const bytes = UserId.toBytes(id);
+
+  assertEquals(bytes.length, 16);
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join(
+    "",
+  );
+  assertEquals(hex, uuidHex(UserId.toUuidString(id)));
+  assertEquals(DynamicTnid.toBytes(id), bytes);
+});
+
+Deno.test("binary: fromBytes round-trips V0 and V1", () => {
+  for (const id of [UserId.new_v0(), UserId.new_v1()]) {
+    assertEquals(UserId.fromBytes(UserId.toBytes(id)), id);
+    assertEquals(DynamicTnid.fromBytes(DynamicTnid.toBytes(id)), id);
+  }
+});
+
+Deno.test("binary: fromBytes rejects wrong length", () => {
+  const err = assertThrows(
+    () => UserId.fromBytes(new Uint8Array(15)),
+    TnidParseError,
+    "expected 16 bytes, got 15",
+  );
+  assertEquals(err.code, "BAD_LENGTH");
+  assertThrows(() => DynamicTnid.fromBytes(new Uint8Array(17)), TnidParseError);
+});
+
+Deno.test("binary: fromBytes rejects non-UUIDv8 bytes", () => {
+  const bytes = UserId.toBytes(UserId.new_v0());
+  bytes[6] = (bytes[6] & 0x0f) | 0x40; // UUID version 4
+
+  const err = assertThrows(() => UserId.fromBytes(bytes), TnidParseError);
+  assertEquals(err.code, "NOT_UUIDV8");
+  assertThrows(() => DynamicTnid.fromBytes(bytes), TnidParseError);
+});
+
+Deno.test("binary: fromBytes rejects wrong name", () => {
+  const bytes = PostId.toBytes(PostId.new_v0());
+
+  const err = assertThrows(() => UserId.fromBytes(bytes), TnidParseError);
+  assertEquals(err.code, "NAME_MISMATCH");
+  assertEquals(DynamicTnid.getName(DynamicTnid.fromBytes(bytes)), "post");
+});
+
+// =============================================================================
+// toBigInt / fromBigInt
+// =============================================================================
+
+Deno.test("binary: toBigInt matches the UUID hex string", () => {
+  const id = UserId.new_v1();
+
+  assertEquals(
+    UserId.toBigInt(id),
+    BigInt("0x" + uuidHex(UserId.toUuidString(id))),
+  );
+  assertEquals(DynamicTnid.toBigInt(id), UserId.toBigInt(id));
+});
+
+Deno.test("binary: fromBigInt round-trips", () => {
+  for (const id of [UserId.new_v0(), UserId.new_v1()]) {
+    assertEquals(UserId.fromBigInt(UserId.toBigInt(id)), id);
+    assertEquals(DynamicTnid.fromBigInt(DynamicTnid.toBigInt(id)), id);
+  }
+});
+
+Deno.test("binary: fromBigInt rejects out-of-range values", () => {
+  for (const value of [-1n, 1n << 128n]) {
+    const err = assertThrows(() => UserId.fromBigInt(value), TnidParseError);
+    assertEquals(err.code, "BAD_LENGTH");
+    assertThrows(() => DynamicTnid.fromBigInt(value), TnidParseError);
+  }
+});
+
+Deno.test("binary: fromBigInt rejects wrong name", () => {
+  const value = PostId.toBigInt(PostId.new_v1());
+
+  const err = assertThrows(() => UserId.fromBigInt(value), TnidParseError);
+  assertEquals(err.code, "NAME_MISMATCH");
+});
@@ -0,0 +1,158 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { DynamicTnid, Tnid, TnidParseError } from "../src/index.ts";
+import { bytesToWords, valueToWords, wordsToBytes } from "../src/bits.ts";
+import { decodeData, encodeData } from "../src/data_encoding.ts";
+import {
+  bytesToUuidString,
+  parseUuidStringToBytes,
+  wordsToUuidString,
+} from "../src/uuid.ts";
+
+const ALPHABET =
+  "-0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ_abcdefghijklmnopqrstuvwxyz";
+
+/** Straightforward BigInt reference for the data string of a 128-bit value. */
+function referenceEncode(value: bigint): string {
+  const payloadA = (value >> 80n) & ((1n << 28n) - 1n);
+  const payloadB = (value >> 64n) & ((1n << 12n) - 1n);
+  const rest = value & ((1n << 62n) - 1n); // TNID variant + payload C
+  const dataBits = (payloadA << 74n) | (payloadB << 62n) | rest;
+
+  let result = "";
+  for (let i = 16; i >= 0; i--) {
+    result += ALPHABET[Number((dataBits >> BigInt(i * 6)) & 0x3fn)];
+  }
+  return result;
+}
+
+// Every TNID bit outside the name, UUID version and UUID variant fields
+const DATA_BIT_POSITIONS = Array.from({ length: 128 }, (_, i) => i).filter(
+  (i) => i < 108 && !(i >= 76 && i < 80) && !(i >= 62 && i < 64),
+);
+
+const USER_NAME_BITS = parseInt(Tnid("user").nameHex(), 16);
+
+/** Value with name "user", the UUIDv8 version/variant bits, plus `bits`. */
+function tnidValue(bits: bigint): bigint {
+  return (BigInt(USER_NAME_BITS) << 108n) | (0x8n << 76n) | (0b10n << 62n) |
+    bits;
+}
+
+// =============================================================================
+// Data Encoding
+// =============================================================================
+
+Deno.test("codec: every data bit maps to the reference position", () => {
+  assertEquals(DATA_BIT_POSITIONS.length, 102);
+  for (const position of DATA_BIT_POSITIONS) {
+    const value = tnidValue(1n << BigInt(position));
+    const encoded = encodeData(valueToWords(value));
+    assertEquals(encoded, referenceEncode(value), `bit ${position}`);
+    assertEquals(
+      decodeData(encoded, USER_NAME_BITS),
+      valueToWords(value),
+      `bit ${position}`,
+    );
+  }
+});
+
+Deno.test("codec: all-zero and all-one payloads", () => {
+  const allOnes = DATA_BIT_POSITIONS.reduce(
+    (acc, i) => acc | (1n << BigInt(i)),
+    0n,
+  );
+  assertEquals(encodeData(valueToWords(tnidValue(0n))), "-".repeat(17));
+  assertEquals(encodeData(valueToWords(tnidValue(allOnes))), "z".repeat(17));
+  assertEquals(
+    decodeData("z".repeat(17), USER_NAME_BITS),
+    valueToWords(
+      tnidValue(allOnes),
+    ),
+  );
+});
+
+Deno.test("codec: random values match the reference", () => {
+  for (let i = 0; i < 200; i++) {
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    const value = BigInt(
+      "0x" + Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join(""),
+    );
+    assertEquals(encodeData(bytesToWords(bytes)), referenceEncode(value));
+  }
+});
+
+Deno.test("codec: decodeData reports the offending character", () => {
+  const err = assertThrows(
+    () => decodeData("-------- -------", 0, 5),
+    TnidParseError,
+    "Invalid data length",
+  );
+  assertEquals(err.code, "BAD_LENGTH");
+
+  const charErr = assertThrows(
+    () => decodeData("---------é-------", 0, 5),
+    TnidParseError,
+    "Invalid data character: é",
+  );
+  assertEquals(charErr.code, "BAD_DATA_CHAR");
+  assertEquals(charErr.position, 14);
+});
+
+// =============================================================================
+// UUID Hex
+// =============================================================================
+
+Deno.test("codec: UUID hex round-trips random bytes", () => {
+  for (let i = 0; i < 200; i++) {
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, "0"))
+      .join("");
+    const uuid = `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${
+      hex.slice(16, 20)
+    }-${hex.slice(20)}`;
+
+    assertEquals(bytesToUuidString(bytes), uuid);
+    assertEquals(
+      wordsToUuidString(bytesToWords(bytes), true),
+      uuid.toUpperCase(),
+    );
+    assertEquals(parseUuidStringToBytes(uuid), bytes);
+    assertEquals(parseUuidStringToBytes(uuid.toUpperCase()), bytes);
+    assertEquals(wordsToBytes(bytesToWords(bytes)), bytes);
+  }
+});
+
+Deno.test("codec: parseUuidStringToBytes keeps precise errors", () => {
+  const uuid = "00000000-0000-8000-8000-000000000000";
+
+  const sepErr = assertThrows(
+    () => parseUuidStringToBytes(uuid.slice(0, 13) + "x" + uuid.slice(14)),
+    TnidParseError,
+  );
+  assertEquals(sepErr.code, "BAD_SEPARATOR");
+  assertEquals(sepErr.position, 13);
+
+  const hexErr = assertThrows(
+    () => parseUuidStringToBytes(uuid.slice(0, 35) + "g"),
+    TnidParseError,
+  );
+  assertEquals(hexErr.code, "BAD_DATA_CHAR");
+  assertEquals(hexErr.position, 35);
+});
+
+// =============================================================================
+// Generation
+// =============================================================================
+
+Deno.test("codec: generated IDs survive a full round trip", () => {
+  for (let i = 0; i < 100; i++) {
+    for (const id of [DynamicTnid.newV0("user"), DynamicTnid.newV1("b")]) {
+      assertEquals(DynamicTnid.parse(id), id);
+      assertEquals(
+        DynamicTnid.parseUuidString(DynamicTnid.toUuidString(id)),
+        id,
+      );
+      assertEquals(DynamicTnid.fromBigInt(DynamicTnid.toBigInt(id)), id);
+    }
+  }
+});
@@ -0,0 +1,101 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { DynamicTnid, Tnid, TnidParseError } from "../src/index.ts";
+
+const UserId = Tnid("user");
+
+/** The TNID string, lowercase UUID and uppercase UUID forms of an ID. */
+function forms(id: string): string[] {
+  return [
+    id,
+    DynamicTnid.toUuidString(DynamicTnid.parse(id)),
+    DynamicTnid.toUuidString(DynamicTnid.parse(id), "upper"),
+  ];
+}
+
+/** Shuffle a copy of `items` with a fixed LCG, so failures are reproducible. */
+function shuffled<T>(items: T[]): T[] {
+  const result = [...items];
+  let state = 12345;
+  for (let i = result.length - 1; i > 0; i--) {
+    state = (state * 1103515245 + 12345) % 2 ** 31;
+    const j = state % (i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+Deno.test("compare: the same TNID in every representation is equal", () => {
+  const id = UserId.new_v0();
+
+  for (const a of forms(id)) {
+    for (const b of forms(id)) {
+      assertEquals(DynamicTnid.compare(a, b), 0);
+      assertEquals(DynamicTnid.equals(a, b), true);
+    }
+  }
+});
+
+Deno.test("compare: different TNIDs are unequal in every representation", () => {
+  const a = UserId.v0_from_parts(1000n, 1n);
+  const b = UserId.v0_from_parts(1000n, 2n);
+
+  for (const x of forms(a)) {
+    for (const y of forms(b)) {
+      assertEquals(DynamicTnid.equals(x, y), false);
+      assertEquals(DynamicTnid.compare(x, y), -1);
+      assertEquals(DynamicTnid.compare(y, x), 1);
+    }
+  }
+});
+
+Deno.test("compare: V0 TNIDs order by timestamp, then random bits", () => {
+  const expected: string[] = [];
+  for (const ms of [0n, 1n, 1737903600000n, 1737903600001n, (1n << 43n) - 1n]) {
+    for (const random of [0n, 1n, 1n << 56n, (1n << 57n) - 1n]) {
+      expected.push(UserId.v0_from_parts(ms, random));
+    }
+  }
+  // Mix TNID strings with lower- and uppercase UUIDs
+  const mixed = shuffled(expected).map((id, i) =>
+    i % 3 === 0 ? id : forms(id)[i % 3]
+  );
+
+  const sorted = mixed.sort(DynamicTnid.compare);
+  assertEquals(sorted.map((s) => DynamicTnid.parse(s)), expected);
+});
+
+Deno.test("compare: matches UUID byte order and TNID string order", () => {
+  const ids = [
+    ...UserId.new_v0_batch(20),
+    ...UserId.new_v1_batch(20),
+    ...Tnid("post").new_v0_batch(20),
+    ...Tnid("a").new_v1_batch(20),
+  ];
+  const byCompare = [...ids].sort(DynamicTnid.compare);
+
+  const byUuid = [...ids].sort((a, b) => {
+    const x = DynamicTnid.toUuidString(a);
+    const y = DynamicTnid.toUuidString(b);
+    return x < y ? -1 : x > y ? 1 : 0;
+  });
+  const byString = [...ids].sort((a, b) => a < b ? -1 : a > b ? 1 : 0);
+
+  assertEquals(byCompare, byUuid);
+  assertEquals(byCompare, byString);
+});
+
+Deno.test("compare: invalid inputs throw TnidParseError", () => {
+  const id = UserId.new_v1();
+
+  for (
+    const bad of [
+      "not-a-tnid",
+      "user.!!!!!!!!!!!!!!!!!",
+      "550e8400-e29b-41d4-a716-446655440000", // UUIDv4
+      "d6157329-4640-8e30-8012-zzzzzzzzzzzz",
+    ]
+  ) {
+    assertThrows(() => DynamicTnid.compare(id, bad), TnidParseError);
+    assertThrows(() => DynamicTnid.equals(bad, id), TnidParseError);
+  }
+});
@@ -0,0 +1,135 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  DynamicTnid,
+  Tnid,
+  TnidParseError,
+  TnidParseErrorCode,
+  UuidLike,
+} from "../src/index.ts";
+
+const UserId = Tnid("user");
+const PostId = Tnid("post");
+
+function parseError(fn: () => unknown): TnidParseError {
+  return assertThrows(fn, TnidParseError);
+}
+
+// =============================================================================
+// Error Codes
+// =============================================================================
+
+Deno.test("errors: NAME_MISMATCH for TNID and UUID strings", () => {
+  const postId = PostId.new_v0();
+
+  const err = parseError(() => UserId.parse(postId));
+  assertEquals(err.code, TnidParseErrorCode.NAME_MISMATCH);
+  assertEquals(err.message, 'TNID name mismatch: expected "user", got "post"');
+
+  const uuidErr = parseError(() => UserId.parse(PostId.toUuidString(postId)));
+  assertEquals(uuidErr.code, "NAME_MISMATCH");
+});
+
+Deno.test("errors: BAD_SEPARATOR for missing '.'", () => {
+  assertEquals(
+    parseError(() => UserId.parse("user0123456789abcdefg")).code,
+    "BAD_SEPARATOR",
+  );
+  assertEquals(
+    parseError(() => DynamicTnid.parseTnidString("invalid")).code,
+    "BAD_SEPARATOR",
+  );
+});
+
+Deno.test("errors: BAD_SEPARATOR points at a misplaced UUID hyphen", () => {
+  const err = parseError(() =>
+    UuidLike.parse("550e8400xe29b-41d4-a716-446655440000")
+  );
+  assertEquals(err.code, "BAD_SEPARATOR");
+  assertEquals(err.position, 8);
+  assertEquals(err.character, "x");
+});
+
+Deno.test("errors: BAD_LENGTH for wrong overall and data length", () => {
+  assertEquals(parseError(() => UserId.parse("short")).code, "BAD_LENGTH");
+  assertEquals(
+    parseError(() => UserId.parseTnidString("user.tooshort")).code,
+    "BAD_LENGTH",
+  );
+  assertEquals(parseError(() => UuidLike.parse("abc")).code, "BAD_LENGTH");
+});
+
+Deno.test("errors: BAD_DATA_CHAR reports position in the input", () => {
+  const err = parseError(() => UserId.parse("user.Br2flcND!F6LYICnT"));
+  assertEquals(err.code, "BAD_DATA_CHAR");
+  assertEquals(err.position, 13);
+  assertEquals(err.character, "!");
+
+  const dynErr = parseError(() => DynamicTnid.parse("a.Br2flcNDfF6LYIC*T"));
+  assertEquals(dynErr.position, 17);
+  assertEquals(dynErr.character, "*");
+});
+
+Deno.test("errors: BAD_DATA_CHAR for non-hex UUID characters", () => {
+  const err = parseError(() =>
+    DynamicTnid.parseUuidString("550e8400-e29b-41d4-a716-44665544000g")
+  );
+  assertEquals(err.code, "BAD_DATA_CHAR");
+  assertEquals(err.position, 35);
+  assertEquals(err.character, "g");
+});
+
+Deno.test("errors: NOT_UUIDV8 for non-TNID UUIDs", () => {
+  const v4 = "550e8400-e29b-41d4-a716-446655440000";
+
+  assertEquals(parseError(() => UserId.parse(v4)).code, "NOT_UUIDV8");
+  assertEquals(parseError(() => DynamicTnid.parse(v4)).code, "NOT_UUIDV8");
+  assertEquals(
+    parseError(() => UuidLike.toTnid(UuidLike.parse(v4))).code,
+    "NOT_UUIDV8",
+  );
+});
+
+Deno.test("errors: BAD_NAME_ENCODING reports the offending character", () => {
+  const err = parseError(() => DynamicTnid.parse("uSer.Br2flcNDfF6LYICnT"));
+  assertEquals(err.code, "BAD_NAME_ENCODING");
+  assertEquals(err.position, 1);
+  assertEquals(err.character, "S");
+});
+
+Deno.test("errors: BAD_NAME_ENCODING for all-zero name bits", () => {
+  // UUIDv8 with valid version/variant bits but an empty name
+  const uuid = "00000000-0000-8000-8000-000000000000";
+
+  assertEquals(
+    parseError(() => DynamicTnid.parseUuidString(uuid)).code,
+    "BAD_NAME_ENCODING",
+  );
+  assertEquals(
+    parseError(() => UserId.parseUuidString(uuid)).code,
+    "BAD_NAME_ENCODING",
+  );
+});
+
+// =============================================================================
+// Integration with safeParse
+// =============================================================================
+
+Deno.test("errors: safeParse returns TnidParseError", () => {
+  const result = UserId.safeParse("user.Br2flcND!F6LYICnT");
+
+  assertEquals(result.ok, false);
+  if (!result.ok) {
+    assertEquals(result.error instanceof TnidParseError, true);
+    assertEquals(result.error.code, "BAD_DATA_CHAR");
+  }
+});
+
+Deno.test("errors: TnidParseError has correct properties", () => {
+  const err = new TnidParseError("BAD_LENGTH", "too short");
+
+  assertEquals(err instanceof Error, true);
+  assertEquals(err.name, "TnidParseError");
+  assertEquals(err.message, "too short");
+  assertEquals(err.position, undefined);
+  assertEquals(err.character, undefined);
+});
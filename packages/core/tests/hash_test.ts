@@ -0,0 +1,81 @@
+import { assertEquals, assertNotEquals } from "@std/assert";
+import { type NamedTnid, Tnid } from "../src/index.ts";
+
+const UserId = Tnid("user");
+
+// Computed independently (Python hashlib) from the documented algorithm:
+// the first 100 bits of SHA-256(u32be(len(ns)) || ns || input)
+const VECTORS: {
+  tnid: NamedTnid<string>;
+  namespace: string;
+  input: string;
+  uuid: string;
+}[] = [
+  {
+    tnid: Tnid("cust"),
+    namespace: "stripe-customer",
+    input: "cus_NffrFeUfNV2Hib",
+    uuid: "46b193c7-a74e-843e-9bea-30c9f37a9911",
+  },
+  {
+    tnid: UserId,
+    namespace: "",
+    input: "",
+    uuid: "d6157df3-f619-8804-9a92-fdb4057192dc",
+  },
+  {
+    tnid: UserId,
+    namespace: "ab",
+    input: "c",
+    uuid: "d61573dc-693f-8b05-9f87-048570cb494b",
+  },
+  {
+    tnid: UserId,
+    namespace: "a",
+    input: "bc",
+    uuid: "d6157f9c-4a2a-8b4d-9e81-ade0bbf55389",
+  },
+  {
+    tnid: Tnid("item"),
+    namespace: "ns",
+    input: "héllo ✓",
+    uuid: "765523f3-7212-8b98-96c9-b3dadb93bfcc",
+  },
+];
+
+Deno.test("fromHash: matches the test vectors", async () => {
+  for (const { tnid, namespace, input, uuid } of VECTORS) {
+    const id = await tnid.fromHash(namespace, input);
+    assertEquals(tnid.toUuidString(id), uuid);
+    assertEquals(tnid.parse(uuid), id);
+  }
+});
+
+Deno.test("fromHash: is deterministic and returns V1 TNIDs", async () => {
+  const a = await UserId.fromHash("stripe-customer", "cus_123");
+  const b = await UserId.fromHash("stripe-customer", "cus_123");
+
+  assertEquals(a, b);
+  assertEquals(UserId.variant(a), "v1");
+  assertEquals(UserId.v1_from_parts(UserId.randomBits(a)), a);
+});
+
+Deno.test("fromHash: namespaces and inputs give distinct IDs", async () => {
+  const ids = await Promise.all([
+    UserId.fromHash("stripe-customer", "cus_123"),
+    UserId.fromHash("stripe-customer", "cus_124"),
+    UserId.fromHash("github-user", "cus_123"),
+    // Same concatenation, different split
+    UserId.fromHash("stripe-customercus_", "123"),
+  ]);
+
+  assertEquals(new Set(ids).size, ids.length);
+});
+
+Deno.test("fromHash: the same key gives the same payload under every name", async () => {
+  const user = await UserId.fromHash("ns", "key");
+  const post = await Tnid("post").fromHash("ns", "key");
+
+  assertNotEquals(user as string, post);
+  assertEquals(UserId.randomBits(user), Tnid("post").randomBits(post));
+});
@@ -0,0 +1,92 @@
+import { assertEquals } from "@std/assert";
+import { DynamicTnid, Tnid, type TnidInspection } from "../src/index.ts";
+
+const UserId = Tnid("user");
+
+/** Set the two TNID variant bits of a 128-bit value. */
+function withVariant(value: bigint, variant: bigint): bigint {
+  return (value & ~(0b11n << 60n)) | (variant << 60n);
+}
+
+Deno.test("inspect: returns all fields of a V0 TNID", () => {
+  const id = UserId.v0_from_parts(1737903600000n, 0x123456789n);
+  const info = DynamicTnid.inspect(id);
+
+  assertEquals(info, {
+    tnid: id,
+    name: "user",
+    nameHex: UserId.nameHex(),
+    variant: "v0",
+    uuid: UserId.toUuidString(id),
+    uuidUpper: UserId.toUuidString(id, "upper"),
+    value: UserId.toBigInt(id),
+    bytes: UserId.toBytes(id),
+    timestamp: new Date(1737903600000),
+    timestampMillis: 1737903600000n,
+    randomBits: 0x123456789n,
+  });
+});
+
+Deno.test("inspect: returns the random bits of a V1 TNID", () => {
+  const id = UserId.v1_from_parts(0x123456789abcdefn);
+  const info = DynamicTnid.inspect(id);
+
+  assertEquals(info, {
+    tnid: id,
+    name: "user",
+    nameHex: UserId.nameHex(),
+    variant: "v1",
+    uuid: UserId.toUuidString(id),
+    uuidUpper: UserId.toUuidString(id, "upper"),
+    value: UserId.toBigInt(id),
+    bytes: UserId.toBytes(id),
+    randomBits: UserId.randomBits(id),
+  });
+});
+
+Deno.test("inspect: returns only the common fields for V2 and V3", () => {
+  const v1 = UserId.toBigInt(UserId.new_v1());
+  for (const [bits, variant] of [[0b10n, "v2"], [0b11n, "v3"]] as const) {
+    const id = DynamicTnid.fromBigInt(withVariant(v1, bits));
+    const info = DynamicTnid.inspect(id);
+
+    assertEquals(info.variant, variant);
+    assertEquals(info.value, withVariant(v1, bits));
+    assertEquals("randomBits" in info, false);
+    assertEquals("timestamp" in info, false);
+  }
+});
+
+Deno.test("inspect: agrees with the individual accessors", () => {
+  for (const id of [UserId.new_v0(), UserId.new_v1()]) {
+    const info = DynamicTnid.inspect(id);
+
+    assertEquals(info.name, DynamicTnid.getName(id));
+    assertEquals(info.nameHex, DynamicTnid.getNameHex(id));
+    assertEquals(info.variant, DynamicTnid.getVariant(id));
+    assertEquals(info.uuid, DynamicTnid.toUuidString(id));
+    assertEquals(info.bytes, DynamicTnid.toBytes(id));
+    assertEquals(info.value, DynamicTnid.toBigInt(id));
+    if (info.variant === "v0" || info.variant === "v1") {
+      assertEquals(info.randomBits, DynamicTnid.getRandomBits(id));
+    }
+    if (info.variant === "v0") {
+      assertEquals(info.timestamp, DynamicTnid.getTimestamp(id));
+    }
+  }
+});
+
+Deno.test("inspect: keeps the literal name type and narrows by variant", () => {
+  const id = UserId.new_v0();
+  const info: TnidInspection<"user"> = DynamicTnid.inspect(id);
+  const name: "user" = info.name;
+  assertEquals(name, "user");
+
+  if (info.variant === "v0") {
+    const millis: bigint = info.timestampMillis;
+    assertEquals(millis, UserId.timestampMillis(id));
+  } else {
+    // @ts-expect-error timestampMillis only exists on V0
+    info.timestampMillis;
+  }
+});
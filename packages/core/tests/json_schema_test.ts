@@ -0,0 +1,182 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  DynamicTnid,
+  Tnid,
+  TnidRegistry,
+  toJsonSchema,
+  toOpenApiComponents,
+} from "../src/index.ts";
+
+const UserId = Tnid("user");
+const PostId = Tnid("post");
+
+function matches(pattern: string, s: string): boolean {
+  return new RegExp(pattern).test(s);
+}
+
+/** A V2 or V3 TNID string, which can't be generated directly. */
+function withVariant(id: string, variant: number): string {
+  const bytes = DynamicTnid.toBytes(id as DynamicTnid);
+  bytes[8] = (bytes[8] & 0xcf) | (variant << 4);
+  return DynamicTnid.fromBytes(bytes);
+}
+
+// =============================================================================
+// toJsonSchema - TNID string form
+// =============================================================================
+
+Deno.test("json schema: describes the TNID string form", () => {
+  const schema = toJsonSchema(UserId);
+
+  assertEquals(schema.type, "string");
+  assertEquals(schema.format, "tnid");
+  assertEquals(schema.pattern, "^user\\.[-0-9A-Z_a-z]{17}$");
+  assertEquals(schema.minLength, 22);
+  assertEquals(schema.maxLength, 22);
+  assertEquals(schema.description, '"user" TNID');
+});
+
+Deno.test("json schema: pattern accepts exactly the valid TNID strings", () => {
+  const { pattern } = toJsonSchema(UserId);
+
+  for (const id of [...UserId.new_v0_batch(50), ...UserId.new_v1_batch(50)]) {
+    assertEquals(matches(pattern, id), true, id);
+  }
+  assertEquals(matches(pattern, withVariant(UserId.new_v1(), 3)), true);
+
+  for (
+    const invalid of [
+      PostId.new_v0(),
+      "user.Br2flcNDfF6LYICn",
+      "user.Br2flcNDfF6LYICnTT",
+      "user.Br2flcNDfF6LYIC!T",
+      "userXBr2flcNDfF6LYICnT",
+      UserId.toUuidString(UserId.new_v0()),
+    ]
+  ) {
+    assertEquals(matches(pattern, invalid), false, invalid);
+  }
+});
+
+Deno.test("json schema: variants constrain the 7th data character", () => {
+  const v0 = toJsonSchema(UserId, { variants: ["v0"] }).pattern;
+  const v1 = toJsonSchema(UserId, { variants: ["v1"] }).pattern;
+  const both = toJsonSchema(UserId, { variants: ["v1", "v0"] }).pattern;
+
+  for (let i = 0; i < 200; i++) {
+    const a = UserId.new_v0();
+    const b = UserId.new_v1();
+    assertEquals([matches(v0, a), matches(v1, a), matches(both, a)], [
+      true,
+      false,
+      true,
+    ]);
+    assertEquals([matches(v0, b), matches(v1, b), matches(both, b)], [
+      false,
+      true,
+      true,
+    ]);
+    assertEquals(matches(both, withVariant(b, 2)), false);
+  }
+});
+
+Deno.test("json schema: examples are stable and valid", () => {
+  const schema = toJsonSchema(UserId);
+
+  assertEquals(schema.examples, toJsonSchema(UserId).examples);
+  assertEquals(schema.examples?.length, 2);
+  assertEquals(UserId.variant(UserId.parse(schema.examples![0])), "v0");
+  assertEquals(
+    UserId.timestamp(UserId.parse(schema.examples![0])),
+    new Date("2025-01-01T00:00:00Z"),
+  );
+  assertEquals(UserId.variant(UserId.parse(schema.examples![1])), "v1");
+
+  assertEquals(toJsonSchema(UserId, { variants: ["v1"] }).examples, [
+    schema.examples![1],
+  ]);
+  assertEquals(
+    toJsonSchema(UserId, { variants: ["v2"] }).examples,
+    undefined,
+  );
+  assertEquals(
+    toJsonSchema(UserId, { examples: ["user.Br2flcNDfF6LYICnT"] }).examples,
+    ["user.Br2flcNDfF6LYICnT"],
+  );
+});
+
+Deno.test("json schema: rejects an empty variant list", () => {
+  assertThrows(
+    () => toJsonSchema(UserId, { variants: [] }),
+    Error,
+    "variants must not be empty",
+  );
+});
+
+// =============================================================================
+// toJsonSchema - UUID form
+// =============================================================================
+
+Deno.test("json schema: describes the UUID form", () => {
+  const schema = toJsonSchema(UserId, { representation: "uuid" });
+
+  assertEquals(schema.format, "uuid");
+  assertEquals(schema.minLength, 36);
+  assertEquals(schema.description, '"user" TNID in UUID form');
+  for (const example of schema.examples!) {
+    assertEquals(UserId.parseUuidString(example), UserId.parse(example));
+    assertEquals(matches(schema.pattern, example), true);
+  }
+});
+
+Deno.test("json schema: UUID pattern checks name, version and variant", () => {
+  const any = toJsonSchema(UserId, { representation: "uuid" }).pattern;
+  const v1 = toJsonSchema(UserId, {
+    representation: "uuid",
+    variants: ["v1"],
+  }).pattern;
+
+  for (let i = 0; i < 50; i++) {
+    const a = UserId.new_v0();
+    const b = UserId.new_v1();
+    assertEquals(matches(any, UserId.toUuidString(a)), true);
+    assertEquals(matches(any, UserId.toUuidString(b, "upper")), true);
+    assertEquals(matches(v1, UserId.toUuidString(a)), false);
+    assertEquals(matches(v1, UserId.toUuidString(b)), true);
+  }
+
+  assertEquals(matches(any, PostId.toUuidString(PostId.new_v0())), false);
+  assertEquals(matches(any, "550e8400-e29b-41d4-a716-446655440000"), false);
+});
+
+// =============================================================================
+// toOpenApiComponents
+// =============================================================================
+
+Deno.test("openapi: generates a component schema per registered name", () => {
+  const Ids = TnidRegistry(UserId, PostId);
+  const components = toOpenApiComponents(Ids, { variants: ["v0"] });
+
+  assertEquals(Object.keys(components.schemas), ["UserId", "PostId"]);
+  assertEquals(
+    components.schemas.PostId,
+    toJsonSchema(PostId, { variants: ["v0"] }),
+  );
+});
+
+Deno.test("openapi: custom component names", () => {
+  const Ids = TnidRegistry(UserId, PostId);
+
+  const components = toOpenApiComponents(Ids, {
+    representation: "uuid",
+    componentName: (name) => `${name}_uuid`,
+  });
+  assertEquals(Object.keys(components.schemas), ["user_uuid", "post_uuid"]);
+  assertEquals(components.schemas.user_uuid.format, "uuid");
+
+  assertThrows(
+    () => toOpenApiComponents(Ids, { componentName: () => "Id" }),
+    Error,
+    'Duplicate OpenAPI component name: "Id"',
+  );
+});
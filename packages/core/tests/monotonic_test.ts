@@ -0,0 +1,85 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { DynamicTnid, Tnid } from "../src/index.ts";
+import { V0_RANDOM_MASK } from "../src/bits.ts";
+import { MonotonicV0State } from "../src/monotonic.ts";
+
+// =============================================================================
+// MonotonicV0State
+// =============================================================================
+
+Deno.test("monotonic: new millisecond uses fresh random bits", () => {
+  let now = 1000n;
+  const state = new MonotonicV0State(() => now, () => 42n);
+
+  assertEquals(state.next(), { timestampMs: 1000n, randomBits: 42n });
+  now = 1001n;
+  assertEquals(state.next(), { timestampMs: 1001n, randomBits: 42n });
+});
+
+Deno.test("monotonic: same millisecond increments random bits", () => {
+  const state = new MonotonicV0State(() => 1000n, () => 42n);
+
+  assertEquals(state.next(), { timestampMs: 1000n, randomBits: 42n });
+  assertEquals(state.next(), { timestampMs: 1000n, randomBits: 43n });
+  assertEquals(state.next(), { timestampMs: 1000n, randomBits: 44n });
+});
+
+Deno.test("monotonic: random overflow borrows the next millisecond", () => {
+  const state = new MonotonicV0State(() => 1000n, () => V0_RANDOM_MASK);
+
+  assertEquals(state.next(), {
+    timestampMs: 1000n,
+    randomBits: V0_RANDOM_MASK,
+  });
+  assertEquals(state.next(), {
+    timestampMs: 1001n,
+    randomBits: V0_RANDOM_MASK,
+  });
+});
+
+Deno.test("monotonic: clock moving backwards keeps incrementing", () => {
+  let now = 5000n;
+  const state = new MonotonicV0State(() => now, () => 7n);
+
+  assertEquals(state.next(), { timestampMs: 5000n, randomBits: 7n });
+  now = 4000n;
+  assertEquals(state.next(), { timestampMs: 5000n, randomBits: 8n });
+  now = 5001n;
+  assertEquals(state.next(), { timestampMs: 5001n, randomBits: 7n });
+});
+
+// =============================================================================
+// NamedTnid.new_v0_monotonic / DynamicTnid.newV0Monotonic
+// =============================================================================
+
+Deno.test("monotonic: new_v0_monotonic is strictly increasing", () => {
+  const UserId = Tnid("user");
+  const ids = Array.from({ length: 1000 }, () => UserId.new_v0_monotonic());
+
+  for (let i = 1; i < ids.length; i++) {
+    assertEquals(ids[i - 1] < ids[i], true, `${ids[i - 1]} >= ${ids[i]}`);
+  }
+  assertEquals(UserId.variant(ids[0]), "v0");
+  assertEquals(UserId.parse(ids[0]), ids[0]);
+});
+
+Deno.test("monotonic: newV0Monotonic is strictly increasing", () => {
+  const ids = Array.from(
+    { length: 1000 },
+    () => DynamicTnid.newV0Monotonic("post"),
+  );
+
+  for (let i = 1; i < ids.length; i++) {
+    assertEquals(ids[i - 1] < ids[i], true, `${ids[i - 1]} >= ${ids[i]}`);
+  }
+  assertEquals(DynamicTnid.getName(ids[0]), "post");
+  assertEquals(DynamicTnid.getVariant(ids[0]), "v0");
+});
+
+Deno.test("monotonic: newV0Monotonic rejects invalid names", () => {
+  assertThrows(
+    () => DynamicTnid.newV0Monotonic("users"),
+    Error,
+    "Invalid TNID name",
+  );
+});
@@ -0,0 +1,134 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  DynamicTnid,
+  getTnidPayloadLayout,
+  setTnidPayloadLayout,
+  Tnid,
+  type TnidPayloadLayout,
+  TnidVariantError,
+} from "../src/index.ts";
+
+/** A tenant ID and a per-tenant sequence number. */
+interface TenantSequence {
+  tenant: number;
+  seq: bigint;
+}
+
+// Type the V3 payloads of these tests; V2 keeps the raw 100-bit integers
+declare module "../src/index.ts" {
+  interface TnidPayloads {
+    v3: TenantSequence;
+  }
+}
+
+const SEQ_MASK = (1n << 68n) - 1n;
+
+/** 32-bit tenant ID in the high bits, 68-bit sequence number in the low bits. */
+const tenantSequence: TnidPayloadLayout<TenantSequence> = {
+  encode: ({ tenant, seq }) => (BigInt(tenant) << 68n) | seq,
+  decode: (bits) => ({ tenant: Number(bits >> 68n), seq: bits & SEQ_MASK }),
+};
+
+const UserId = Tnid("user");
+
+/** Run `fn` with the tenant/sequence layout registered for V3. */
+function withTenantSequence(fn: () => void): void {
+  setTnidPayloadLayout("v3", tenantSequence);
+  try {
+    fn();
+  } finally {
+    setTnidPayloadLayout("v3");
+  }
+}
+
+Deno.test("payload: V2 payloads default to the raw 100 bits", () => {
+  const payload = 0xfedcba9876543210fedcba987n;
+  const id = DynamicTnid.newV2("user", payload);
+
+  assertEquals(DynamicTnid.getVariant(id), "v2");
+  assertEquals(DynamicTnid.decodeV2(id), payload);
+  assertEquals(UserId.decodeV2(UserId.parse(id)), payload);
+});
+
+Deno.test("payload: all 100 payload bits round-trip and keep the UUIDv8 bits", () => {
+  const max = (1n << 100n) - 1n;
+  const id = UserId.new_v2(max);
+  const value = UserId.toBigInt(id);
+
+  assertEquals(UserId.decodeV2(id), max);
+  assertEquals((value >> 76n) & 0xfn, 8n); // UUID version
+  assertEquals((value >> 62n) & 0b11n, 0b10n); // UUID variant
+  assertEquals((value >> 60n) & 0b11n, 0b10n); // TNID variant
+  assertEquals(DynamicTnid.getName(id), "user");
+  assertEquals(UserId.decodeV2(UserId.new_v2(0n)), 0n);
+});
+
+Deno.test("payload: V2 and V3 TNIDs parse from TNID and UUID strings", () => {
+  withTenantSequence(() => {
+    const v2 = UserId.new_v2(123n);
+    const v3 = UserId.new_v3({ tenant: 7, seq: 456n });
+
+    for (const id of [v2, v3]) {
+      assertEquals(UserId.parse(id), id);
+      assertEquals(UserId.parse(UserId.toUuidString(id)), id);
+      assertEquals(DynamicTnid.fromBytes(UserId.toBytes(id)), id);
+    }
+    assertEquals(UserId.variant(v3), "v3");
+  });
+});
+
+Deno.test("payload: registered layouts encode and decode payloads", () => {
+  withTenantSequence(() => {
+    const payload = { tenant: 42, seq: 1001n };
+    const id = UserId.new_v3(payload);
+
+    assertEquals(UserId.decodeV3(id), payload);
+    assertEquals(DynamicTnid.decodeV3(id), payload);
+    assertEquals(DynamicTnid.newV3("user", payload), id);
+
+    // Consecutive sequence numbers of a tenant sort in order
+    const next = UserId.new_v3({ tenant: 42, seq: 1002n });
+    assertEquals(
+      UserId.toUuidString(id) < UserId.toUuidString(next),
+      true,
+    );
+  });
+  assertEquals(getTnidPayloadLayout("v3") === tenantSequence, false);
+});
+
+Deno.test("payload: decoding the wrong variant throws TnidVariantError", () => {
+  const v2 = UserId.new_v2(1n);
+
+  for (const id of [UserId.new_v0(), UserId.new_v1(), v2]) {
+    assertThrows(() => UserId.decodeV3(id), TnidVariantError);
+  }
+  const err = assertThrows(
+    () => DynamicTnid.decodeV2(UserId.new_v1()),
+    TnidVariantError,
+  );
+  assertEquals(
+    err.message,
+    "V2 payload decoding is not supported for v1 TNIDs",
+  );
+  assertEquals(err.variant, "v1");
+});
+
+Deno.test("payload: payloads that don't fit in 100 bits throw RangeError", () => {
+  assertThrows(() => UserId.new_v2(1n << 100n), RangeError);
+  assertThrows(() => UserId.new_v2(-1n), RangeError);
+
+  withTenantSequence(() => {
+    assertThrows(
+      () => UserId.new_v3({ tenant: 2 ** 32, seq: 0n }),
+      RangeError,
+    );
+  });
+});
+
+Deno.test("payload: invalid names and variants are rejected", () => {
+  assertThrows(() => DynamicTnid.newV2("User", 1n), Error, "Invalid TNID name");
+  assertThrows(
+    () => setTnidPayloadLayout("v1" as "v2", tenantSequence as never),
+    TnidVariantError,
+  );
+});
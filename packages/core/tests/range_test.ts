@@ -0,0 +1,108 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { DynamicTnid, Tnid } from "../src/index.ts";
+
+const UserId = Tnid("user");
+
+// =============================================================================
+// minForTime / maxForTime
+// =============================================================================
+
+Deno.test("range: min and max bound IDs generated at that time", () => {
+  const time = new Date("2024-06-01T00:00:00.123Z");
+  const min = UserId.minForTime(time);
+  const max = UserId.maxForTime(time);
+
+  for (let i = 0; i < 100; i++) {
+    const id = DynamicTnid.newV0WithTime("user", time);
+    const uuid = DynamicTnid.toUuidString(id);
+    assertEquals(min.tnid <= id && id <= max.tnid, true, id);
+    assertEquals(min.uuid <= uuid && uuid <= max.uuid, true, uuid);
+  }
+});
+
+Deno.test("range: bounds are the extreme random values", () => {
+  const time = new Date(1737903600000);
+  const min = UserId.minForTime(time);
+  const max = UserId.maxForTime(time);
+
+  assertEquals(min.tnid, UserId.v0_from_parts(1737903600000n, 0n));
+  assertEquals(
+    max.tnid,
+    UserId.v0_from_parts(1737903600000n, (1n << 57n) - 1n),
+  );
+  assertEquals(min.uuid, UserId.toUuidString(min.tnid));
+  assertEquals(max.uuid, UserId.toUuidString(max.tnid));
+});
+
+Deno.test("range: adjacent milliseconds do not overlap", () => {
+  const max = UserId.maxForTime(new Date(1000));
+  const nextMin = UserId.minForTime(new Date(1001));
+
+  assertEquals(max.tnid < nextMin.tnid, true);
+  assertEquals(max.uuid < nextMin.uuid, true);
+});
+
+Deno.test("range: DynamicTnid bounds match NamedTnid bounds", () => {
+  const time = new Date("2025-01-01T00:00:00Z");
+
+  assertEquals(DynamicTnid.minForTime("user", time), UserId.minForTime(time));
+  assertEquals(DynamicTnid.maxForTime("user", time), UserId.maxForTime(time));
+});
+
+Deno.test("range: rejects times outside the V0 timestamp range", () => {
+  assertThrows(() => UserId.minForTime(new Date(-1)), Error, "out of range");
+  assertThrows(
+    () => UserId.maxForTime(new Date(2 ** 43)),
+    Error,
+    "out of range",
+  );
+  assertThrows(() => UserId.minForTime(new Date(NaN)), Error, "out of range");
+});
+
+Deno.test("range: DynamicTnid rejects invalid names", () => {
+  assertThrows(
+    () => DynamicTnid.minForTime("users", new Date()),
+    Error,
+    "Invalid TNID name",
+  );
+});
+
+// =============================================================================
+// rangeForInterval
+// =============================================================================
+
+Deno.test("range: rangeForInterval covers the whole interval", () => {
+  const start = new Date("2024-01-01T00:00:00Z");
+  const end = new Date("2024-01-02T00:00:00Z");
+  const { min, max } = UserId.rangeForInterval(start, end);
+
+  assertEquals(min, UserId.minForTime(start));
+  assertEquals(max, UserId.maxForTime(end));
+
+  const inside = DynamicTnid.newV0WithTime(
+    "user",
+    new Date("2024-01-01T12:00:00Z"),
+  );
+  const before = DynamicTnid.newV0WithTime(
+    "user",
+    new Date(start.getTime() - 1),
+  );
+  const after = DynamicTnid.newV0WithTime("user", new Date(end.getTime() + 1));
+
+  assertEquals(min.tnid <= inside && inside <= max.tnid, true);
+  assertEquals(before < min.tnid, true);
+  assertEquals(after > max.tnid, true);
+});
+
+Deno.test("range: rangeForInterval rejects end before start", () => {
+  assertThrows(
+    () => UserId.rangeForInterval(new Date(2000), new Date(1000)),
+    Error,
+    "end is before start",
+  );
+  assertThrows(
+    () => DynamicTnid.rangeForInterval("user", new Date(2000), new Date(1000)),
+    Error,
+    "end is before start",
+  );
+});
@@ -0,0 +1,123 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  Tnid,
+  TnidParseError,
+  TnidRegistry,
+  type TnidRegistryType,
+  type TnidType,
+} from "../src/index.ts";
+
+const UserId = Tnid("user");
+type UserId = TnidType<typeof UserId>;
+const PostId = Tnid("post");
+type PostId = TnidType<typeof PostId>;
+
+// =============================================================================
+// Registration
+// =============================================================================
+
+Deno.test("registry: registers NamedTnids by name", () => {
+  const Ids = TnidRegistry(UserId, PostId);
+
+  assertEquals(Ids.names, ["user", "post"]);
+  assertEquals(Ids.has("user"), true);
+  assertEquals(Ids.has("cmnt"), false);
+  assertEquals(Ids.get("post"), PostId);
+});
+
+Deno.test("registry: register returns a new registry and keeps the original", () => {
+  const Ids = TnidRegistry(UserId);
+  const CmntId = Tnid("cmnt");
+  const All = Ids.register(CmntId);
+
+  assertEquals(All.names, ["user", "cmnt"]);
+  assertEquals(All.get("cmnt"), CmntId);
+  assertEquals(All.parse(CmntId.new_v0()).name, "cmnt");
+
+  assertEquals(Ids.names, ["user"]);
+  assertEquals(Ids.has("cmnt"), false);
+  assertThrows(() => Ids.parse(CmntId.new_v0()), TnidParseError);
+});
+
+Deno.test("registry: rejects duplicate names", () => {
+  const Ids = TnidRegistry(UserId, PostId);
+
+  assertThrows(
+    () => Ids.register(Tnid("user")),
+    Error,
+    'Duplicate TNID name: "user" is already registered',
+  );
+  assertThrows(
+    () => TnidRegistry(PostId, PostId),
+    Error,
+    "Duplicate TNID name",
+  );
+  assertEquals(Ids.names, ["user", "post"]);
+});
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+Deno.test("registry: parse returns the name and ID", () => {
+  const Ids = TnidRegistry(UserId, PostId);
+  const userId = UserId.new_v0();
+  const postId = PostId.new_v1();
+
+  assertEquals(Ids.parse(userId), { name: "user", id: userId });
+  assertEquals(Ids.parse(postId), { name: "post", id: postId });
+  assertEquals(Ids.parse(PostId.toUuidString(postId)), {
+    name: "post",
+    id: postId,
+  });
+});
+
+Deno.test("registry: parse rejects unregistered names and invalid input", () => {
+  const Ids = TnidRegistry(UserId);
+
+  const err = assertThrows(
+    () => Ids.parse(PostId.new_v0()),
+    TnidParseError,
+    '"post" is not registered',
+  );
+  assertEquals(err.code, "NAME_MISMATCH");
+
+  assertThrows(() => Ids.parse("user.!!!"), TnidParseError);
+  assertEquals(Ids.safeParse("garbage").ok, false);
+  assertEquals(Ids.safeParse(UserId.new_v1()).ok, true);
+});
+
+// =============================================================================
+// COMPILE-TIME TESTS
+// =============================================================================
+
+Deno.test("compile: parse result narrows on name", () => {
+  const Ids = TnidRegistry(UserId, PostId);
+  type AnyId = TnidRegistryType<typeof Ids>;
+
+  const describe = (entry: AnyId): string => {
+    switch (entry.name) {
+      case "user": {
+        const id: UserId = entry.id;
+        return UserId.variant(id);
+      }
+      case "post": {
+        const id: PostId = entry.id;
+        // @ts-expect-error: a PostId is not a UserId
+        const _wrong: UserId = entry.id;
+        return PostId.variant(id);
+      }
+    }
+  };
+
+  assertEquals(describe(Ids.parse(UserId.new_v0())), "v0");
+  assertEquals(describe(Ids.parse(PostId.new_v1())), "v1");
+
+  if (false as boolean) {
+    // @ts-expect-error: "cmnt" is not registered
+    Ids.get("cmnt");
+
+    const All = Ids.register(Tnid("cmnt"));
+    const _cmnt: "user" | "post" | "cmnt" = All.parse("").name;
+  }
+});
@@ -2,6 +2,8 @@
  * Test harness for comparing TypeScript implementation against the Rust CLI.
  */
 
+import { DynamicTnid } from "../../src/index.ts";
+
 const CLI_PATH = "tnid";
 
 async function runCli(args: string[]): Promise<string> {
@@ -34,14 +36,17 @@ export function cliMakeV1(name: string, random: bigint): Promise<string> {
   return runCli(["internals", "make-v1", name, hex]);
 }
 
-/** Inspect a TNID using the Rust CLI, returns parsed fields */
-export async function cliInspect(tnid: string): Promise<{
+/** The fields printed by the Rust CLI's `inspect` */
+export interface InspectFields {
   name: string;
   nameHex: string;
   variant: string;
   tnidString: string;
   uuidString: string;
-}> {
+}
+
+/** Inspect a TNID using the Rust CLI, returns parsed fields */
+export async function cliInspect(tnid: string): Promise<InspectFields> {
   const output = await runCli(["inspect", tnid]);
   const lines = output.split("\n");
   const fields: Record<string, string> = {};
@@ -54,12 +59,24 @@ export async function cliInspect(tnid: string): Promise<{
   return {
     name: fields["name"],
     nameHex: fields["name_hex"],
-    variant: fields["variant"],
+    variant: fields["variant"]?.toLowerCase(),
     tnidString: fields["tnid_string"],
     uuidString: fields["uuid_string"],
   };
 }
 
+/** The fields `cliInspect` returns, from `DynamicTnid.inspect` */
+export function inspectFields(tnid: string): InspectFields {
+  const info = DynamicTnid.inspect(DynamicTnid.parse(tnid));
+  return {
+    name: info.name,
+    nameHex: info.nameHex,
+    variant: info.variant,
+    tnidString: info.tnid,
+    uuidString: info.uuid,
+  };
+}
+
 /** Encode a name using the Rust CLI */
 export function cliEncodeName(name: string): Promise<string> {
   return runCli(["internals", "encode-name", name]);
@@ -85,8 +102,8 @@ export async function debugCompareV0(
   {
     rust: string;
     match: boolean;
-    tsInspect?: Awaited<ReturnType<typeof cliInspect>>;
-    rustInspect?: Awaited<ReturnType<typeof cliInspect>>;
+    tsInspect?: InspectFields;
+    rustInspect?: InspectFields;
   }
 > {
   const rust = await cliMakeV0(name, timestamp, random);
@@ -109,8 +126,8 @@ export async function debugCompareV1(
   {
     rust: string;
     match: boolean;
-    tsInspect?: Awaited<ReturnType<typeof cliInspect>>;
-    rustInspect?: Awaited<ReturnType<typeof cliInspect>>;
+    tsInspect?: InspectFields;
+    rustInspect?: InspectFields;
   }
 > {
   const rust = await cliMakeV1(name, random);
@@ -6,6 +6,7 @@ import { assertEquals } from "@std/assert";
 import { DynamicTnid, Tnid, UuidLike } from "../../src/index.ts";
 import {
   cliInspect,
+  inspectFields,
   randomName,
   randomTimestamp,
   randomV0Random,
@@ -189,6 +190,17 @@ Deno.test("rust compat: tnid.nameHex matches Rust", async () => {
   }
 });
 
+Deno.test("rust compat: DynamicTnid.inspect matches Rust inspect", async () => {
+  for (let i = 0; i < 10; i++) {
+    const tnid = Tnid(randomName() as Parameters<typeof Tnid>[0]);
+    const v0 = tnid.v0_from_parts(randomTimestamp(), randomV0Random());
+    const v1 = tnid.v1_from_parts(randomV1Random());
+
+    assertEquals(inspectFields(v0), await cliInspect(v0));
+    assertEquals(inspectFields(v1), await cliInspect(v1));
+  }
+});
+
 // =============================================================================
 // Round-trip: TNID -> UUID -> TNID
 // =============================================================================
@@ -231,11 +243,7 @@ Deno.test("rust compat: boundary timestamp values", async () => {
 
   for (const ts of timestamps) {
     const id = UserId.v0_from_parts(BigInt(ts), 0n);
-    const rustInspect = await cliInspect(id);
-
-    assertEquals(DynamicTnid.getVariant(id), rustInspect.variant.toLowerCase());
-    assertEquals(DynamicTnid.getName(id), rustInspect.name);
-    assertEquals(DynamicTnid.toUuidString(id), rustInspect.uuidString);
+    assertEquals(inspectFields(id), await cliInspect(id));
   }
 });
 
@@ -250,10 +258,7 @@ Deno.test("rust compat: boundary random values for V0", async () => {
 
   for (const r of randoms) {
     const id = UserId.v0_from_parts(1000n, r);
-    const rustInspect = await cliInspect(id);
-
-    assertEquals(DynamicTnid.getVariant(id), rustInspect.variant.toLowerCase());
-    assertEquals(DynamicTnid.toUuidString(id), rustInspect.uuidString);
+    assertEquals(inspectFields(id), await cliInspect(id));
   }
 });
 
@@ -268,9 +273,6 @@ Deno.test("rust compat: boundary random values for V1", async () => {
 
   for (const r of randoms) {
     const id = UserId.v1_from_parts(r);
-    const rustInspect = await cliInspect(id);
-
-    assertEquals(DynamicTnid.getVariant(id), rustInspect.variant.toLowerCase());
-    assertEquals(DynamicTnid.toUuidString(id), rustInspect.uuidString);
+    assertEquals(inspectFields(id), await cliInspect(id));
   }
 });
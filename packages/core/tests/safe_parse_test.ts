@@ -0,0 +1,124 @@
+import {
+  assertEquals,
+  assertInstanceOf,
+  assertStrictEquals,
+} from "@std/assert";
+import {
+  DynamicTnid,
+  Tnid,
+  TnidParseError,
+  TnidRegistry,
+  UuidLike,
+} from "../src/index.ts";
+
+const UserId = Tnid("user");
+const PostId = Tnid("post");
+
+// =============================================================================
+// NamedTnid.safeParse
+// =============================================================================
+
+Deno.test("safeParse: returns ok for valid TNID and UUID strings", () => {
+  const id = UserId.new_v0();
+
+  assertEquals(UserId.safeParse(id), { ok: true, value: id });
+  assertEquals(UserId.safeParse(UserId.toUuidString(id)), {
+    ok: true,
+    value: id,
+  });
+});
+
+Deno.test("safeParse: returns the error parse would throw", () => {
+  const inputs = [
+    PostId.new_v0(),
+    "usersomedata",
+    "user.!!!!!!!!!!!!!!!!!",
+    "not-a-uuid-at-all-but-36-characters!",
+    "",
+  ];
+
+  for (const input of inputs) {
+    const result = UserId.safeParse(input);
+    if (result.ok) throw new Error(`expected failure for "${input}"`);
+
+    let thrown: unknown;
+    try {
+      UserId.parse(input);
+    } catch (e) {
+      thrown = e;
+    }
+    assertEquals(result.error.message, (thrown as Error).message);
+  }
+});
+
+Deno.test("safeParse: the error is a TnidParseError, built once", () => {
+  const result = UserId.safeParse("user.!!!!!!!!!!!!!!!!!");
+  if (result.ok) throw new Error("expected failure");
+
+  assertInstanceOf(result.error, TnidParseError);
+  assertEquals(result.error.code, "BAD_DATA_CHAR");
+  assertEquals(result.error.position, 5);
+  assertStrictEquals(result.error, result.error);
+});
+
+Deno.test("safeParse: unions and registries report name mismatches", () => {
+  const input = Tnid("cmnt").new_v0();
+
+  for (const parser of [Tnid.union(UserId, PostId), TnidRegistry(UserId)]) {
+    const result = parser.safeParse(input);
+    if (result.ok) throw new Error("expected failure");
+    assertEquals(result.error.code, "NAME_MISMATCH");
+  }
+});
+
+// =============================================================================
+// DynamicTnid.safeParse
+// =============================================================================
+
+Deno.test("safeParse: DynamicTnid accepts any valid TNID", () => {
+  const id = PostId.new_v1();
+
+  assertEquals(DynamicTnid.safeParse(id), { ok: true, value: id });
+  assertEquals(DynamicTnid.safeParse(PostId.toUuidString(id)), {
+    ok: true,
+    value: id,
+  });
+});
+
+Deno.test("safeParse: DynamicTnid reports invalid input", () => {
+  const result = DynamicTnid.safeParse("UPPR.1234567890123456-");
+
+  assertEquals(result.ok, false);
+  if (!result.ok) {
+    assertEquals(result.error.message.includes("Invalid TNID name"), true);
+  }
+});
+
+// =============================================================================
+// UuidLike.safeParse / safeToTnid
+// =============================================================================
+
+Deno.test("safeParse: UuidLike validates format", () => {
+  assertEquals(UuidLike.safeParse("550E8400-E29B-41D4-A716-446655440000"), {
+    ok: true,
+    value: "550e8400-e29b-41d4-a716-446655440000" as UuidLike,
+  });
+  assertEquals(UuidLike.safeParse("not-a-uuid").ok, false);
+});
+
+Deno.test("safeParse: UuidLike.safeToTnid validates TNID structure", () => {
+  const id = UserId.new_v0();
+
+  assertEquals(UuidLike.safeToTnid(UuidLike.fromTnid(id)), {
+    ok: true,
+    value: id,
+  });
+
+  // Valid UUID, but UUIDv4 rather than a TNID
+  const v4 = UuidLike.parse("550e8400-e29b-41d4-a716-446655440000");
+  const result = UuidLike.safeToTnid(v4);
+  assertEquals(result.ok, false);
+  if (!result.ok) {
+    assertEquals(result.error.message, "Invalid TNID: not a valid UUIDv8");
+  }
+});
@@ -0,0 +1,123 @@
+import { assertEquals, assertNotEquals } from "@std/assert";
+import {
+  DynamicTnid,
+  getDefaultTnidSource,
+  setDefaultTnidSource,
+  Tnid,
+  type TnidSource,
+} from "../src/index.ts";
+
+/** A source with a fixed clock and a counting byte stream. */
+function fixedSource(ms: number): TnidSource {
+  let next = 0;
+  return {
+    clock: () => ms,
+    random: (bytes) => {
+      for (let i = 0; i < bytes.length; i++) bytes[i] = next++ & 0xff;
+    },
+  };
+}
+
+// =============================================================================
+// Tnid(name, options)
+// =============================================================================
+
+Deno.test("source: per-factory source makes new_v0/new_v1 reproducible", () => {
+  const a = Tnid("user", fixedSource(1700000000000));
+  const b = Tnid("user", fixedSource(1700000000000));
+
+  const idsA = [a.new_v0(), a.new_v1(), a.new_v0()];
+  const idsB = [b.new_v0(), b.new_v1(), b.new_v0()];
+
+  assertEquals(idsA, idsB);
+  assertEquals(a.timestampMillis(idsA[0]), 1700000000000n);
+  assertNotEquals(idsA[0], idsA[2]);
+});
+
+Deno.test("source: random bytes are read big-endian", () => {
+  const UserId = Tnid("user", {
+    clock: () => 1000,
+    random: (bytes) =>
+      bytes.set([1, 2, 3, 4, 5, 6, 7, 8].slice(0, bytes.length)),
+  });
+
+  const id = UserId.new_v0();
+  assertEquals(UserId.randomBits(id), 0x0102030405060708n & ((1n << 57n) - 1n));
+  assertEquals(id, UserId.v0_from_parts(1000n, 0x0102030405060708n));
+});
+
+Deno.test("source: clock-only options keep real randomness", () => {
+  const UserId = Tnid("user", { clock: () => 42 });
+  const a = UserId.new_v0();
+  const b = UserId.new_v0();
+
+  assertEquals(UserId.timestampMillis(a), 42n);
+  assertNotEquals(a, b);
+});
+
+Deno.test("source: batches and monotonic IDs use the source", () => {
+  const make = () => Tnid("user", fixedSource(5000));
+  assertEquals(make().new_v0_batch(3), make().new_v0_batch(3));
+  assertEquals(make().new_v1_batch(3), make().new_v1_batch(3));
+  assertEquals(
+    make().new_v0_batch(3, { monotonic: true }),
+    make().new_v0_batch(3, { monotonic: true }),
+  );
+
+  // A batch matches the same number of single calls
+  const single = make();
+  assertEquals(make().new_v1_batch(2), [single.new_v1(), single.new_v1()]);
+});
+
+Deno.test("source: exposed on the NamedTnid", () => {
+  const UserId = Tnid("user", { clock: () => 123 });
+  assertEquals(UserId.source.clock(), 123);
+});
+
+// =============================================================================
+// setDefaultTnidSource
+// =============================================================================
+
+Deno.test("source: default override applies to DynamicTnid and existing factories", () => {
+  const UserId = Tnid("user");
+  try {
+    setDefaultTnidSource(fixedSource(1234));
+    const dynamic = DynamicTnid.newV0("user");
+    setDefaultTnidSource(fixedSource(1234));
+    const named = UserId.new_v0();
+
+    assertEquals(dynamic, named);
+    assertEquals(DynamicTnid.getTimestampMillis(dynamic), 1234n);
+    assertEquals(UserId.source.clock(), 1234);
+  } finally {
+    setDefaultTnidSource();
+  }
+
+  const before = Date.now();
+  const ts = DynamicTnid.getTimestamp(DynamicTnid.newV0("user")).getTime();
+  assertEquals(ts >= before, true);
+});
+
+Deno.test("source: per-factory options take precedence over the default", () => {
+  const UserId = Tnid("user", { clock: () => 99 });
+  try {
+    setDefaultTnidSource(fixedSource(1234));
+    const id = UserId.new_v0();
+
+    assertEquals(UserId.timestampMillis(id), 99n);
+    // random still comes from the default override
+    assertEquals(id, Tnid("user", fixedSource(99)).new_v0());
+  } finally {
+    setDefaultTnidSource();
+  }
+});
+
+Deno.test("source: getDefaultTnidSource reflects the override", () => {
+  try {
+    setDefaultTnidSource({ clock: () => 7 });
+    assertEquals(getDefaultTnidSource().clock(), 7);
+  } finally {
+    setDefaultTnidSource();
+  }
+  assertNotEquals(getDefaultTnidSource().clock(), 7);
+});
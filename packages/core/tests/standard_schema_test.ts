@@ -0,0 +1,106 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import {
+  DynamicTnid,
+  type StandardSchemaV1,
+  Tnid,
+  type TnidType,
+  UuidLike,
+} from "../src/index.ts";
+
+const UserId = Tnid("user");
+type UserId = TnidType<typeof UserId>;
+const PostId = Tnid("post");
+
+/** A minimal Standard Schema consumer, as a validation library would do it. */
+async function validate<S extends StandardSchemaV1>(
+  schema: S,
+  value: unknown,
+): Promise<NonNullable<S["~standard"]["types"]>["output"]> {
+  const result = await schema["~standard"].validate(value);
+  if (result.issues) {
+    throw new Error(result.issues.map((issue) => issue.message).join("; "));
+  }
+  return result.value;
+}
+
+// =============================================================================
+// NamedTnid
+// =============================================================================
+
+Deno.test("standard schema: NamedTnid exposes v1 props", () => {
+  assertEquals(UserId["~standard"].version, 1);
+  assertEquals(UserId["~standard"].vendor, "tnid");
+});
+
+Deno.test("standard schema: NamedTnid validates like parse", async () => {
+  const id = UserId.new_v0();
+
+  const parsed: UserId = await validate(UserId, id);
+  assertEquals(parsed, id);
+  assertEquals(await validate(UserId, UserId.toUuidString(id)), id);
+});
+
+Deno.test("standard schema: NamedTnid reports parse errors as issues", () => {
+  const result = UserId["~standard"].validate(PostId.new_v0());
+
+  assertEquals(result, {
+    issues: [{
+      message: 'TNID name mismatch: expected "user", got "post"',
+      code: "NAME_MISMATCH",
+    }],
+  });
+});
+
+Deno.test("standard schema: issues carry the parse error code", () => {
+  const cases = [
+    [UserId["~standard"].validate("user.short"), "BAD_LENGTH"],
+    [
+      DynamicTnid["~standard"].validate("user!Br2flcNDfF6LYICnT"),
+      "BAD_SEPARATOR",
+    ],
+    [UuidLike["~standard"].validate("not-a-uuid"), "BAD_LENGTH"],
+  ] as const;
+
+  for (const [result, code] of cases) {
+    if (result instanceof Promise || !result.issues) {
+      throw new Error("expected issues");
+    }
+    assertEquals(result.issues[0].code, code);
+  }
+});
+
+Deno.test("standard schema: non-strings are issues", async () => {
+  assertEquals(UserId["~standard"].validate(42), {
+    issues: [{ message: "Expected a string, got number" }],
+  });
+  assertEquals(DynamicTnid["~standard"].validate(null), {
+    issues: [{ message: "Expected a string, got null" }],
+  });
+  await assertRejects(() => validate(UuidLike, undefined), Error, "undefined");
+});
+
+// =============================================================================
+// DynamicTnid / UuidLike
+// =============================================================================
+
+Deno.test("standard schema: DynamicTnid accepts any valid TNID", async () => {
+  const id = PostId.new_v1();
+
+  const parsed: DynamicTnid = await validate(DynamicTnid, id);
+  assertEquals(parsed, id);
+  await assertRejects(
+    () => validate(DynamicTnid, "UPPR.1234567890123456-"),
+    Error,
+    "Invalid TNID name",
+  );
+});
+
+Deno.test("standard schema: UuidLike normalizes UUID strings", async () => {
+  const parsed: UuidLike = await validate(
+    UuidLike,
+    "550E8400-E29B-41D4-A716-446655440000",
+  );
+
+  assertEquals(parsed, "550e8400-e29b-41d4-a716-446655440000" as UuidLike);
+  await assertRejects(() => validate(UuidLike, "not-a-uuid"), Error);
+});
@@ -0,0 +1,77 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { DynamicTnid, Tnid, TnidVariantError } from "../src/index.ts";
+
+const UserId = Tnid("user");
+
+// =============================================================================
+// Timestamp Extraction
+// =============================================================================
+
+Deno.test("timestamp: round-trips v0_from_parts", () => {
+  const cases = [0n, 1n, 1000n, 1737903600000n, (1n << 43n) - 1n];
+  for (const ts of cases) {
+    const id = UserId.v0_from_parts(ts, 12345n);
+    assertEquals(UserId.timestampMillis(id), ts, `ts=${ts}`);
+    assertEquals(DynamicTnid.getTimestampMillis(id), ts, `ts=${ts}`);
+  }
+});
+
+Deno.test("timestamp: returns a Date matching newV0WithTime", () => {
+  const time = new Date("2024-01-15T12:34:56.789Z");
+  const id = DynamicTnid.newV0WithTime("post", time);
+
+  assertEquals(DynamicTnid.getTimestamp(id), time);
+});
+
+Deno.test("timestamp: new_v0 is close to the current time", () => {
+  const before = Date.now();
+  const id = UserId.new_v0();
+  const after = Date.now();
+
+  const ts = UserId.timestamp(id).getTime();
+  assertEquals(ts >= before && ts <= after, true);
+});
+
+Deno.test("timestamp: throws TnidVariantError for V1", () => {
+  const id = UserId.new_v1();
+
+  const err = assertThrows(
+    () => UserId.timestamp(id),
+    TnidVariantError,
+    "not supported for v1 TNIDs",
+  );
+  assertEquals(err.variant, "v1");
+  assertThrows(() => DynamicTnid.getTimestamp(id), TnidVariantError);
+  assertThrows(() => DynamicTnid.getTimestampMillis(id), TnidVariantError);
+});
+
+// =============================================================================
+// Random Bits Extraction
+// =============================================================================
+
+Deno.test("randomBits: round-trips v0_from_parts", () => {
+  const cases = [0n, 1n, 987654321n, (1n << 57n) - 1n];
+  for (const random of cases) {
+    const id = UserId.v0_from_parts(1000n, random);
+    assertEquals(UserId.randomBits(id), random, `random=${random}`);
+    assertEquals(DynamicTnid.getRandomBits(id), random, `random=${random}`);
+  }
+});
+
+Deno.test("randomBits: round-trips V1 IDs", () => {
+  for (let i = 0; i < 10; i++) {
+    const id = UserId.new_v1();
+    assertEquals(UserId.v1_from_parts(UserId.randomBits(id)), id);
+  }
+});
+
+Deno.test("randomBits: round-trips V0 IDs", () => {
+  for (let i = 0; i < 10; i++) {
+    const id = UserId.new_v0();
+    const rebuilt = UserId.v0_from_parts(
+      UserId.timestampMillis(id),
+      UserId.randomBits(id),
+    );
+    assertEquals(rebuilt, id);
+  }
+});
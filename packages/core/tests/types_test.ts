@@ -1,5 +1,11 @@
 import { assertEquals } from "@std/assert";
-import { Tnid, type TnidType } from "../src/index.ts";
+import {
+  DynamicTnid,
+  Tnid,
+  type TnidStrictType,
+  type TnidString,
+  type TnidType,
+} from "../src/index.ts";
 
 // =============================================================================
 // COMPILE-TIME TESTS - Valid Names
@@ -159,3 +165,70 @@ Deno.test("compile: no reasonable way to forge a TNID", () => {
     const _k: UserId = [...valid].join("");
   }
 });
+
+// =============================================================================
+// COMPILE-TIME TESTS - Strict branding (TnidStrictType)
+// =============================================================================
+
+Deno.test("compile: strict types check the name prefix", () => {
+  const UserId = Tnid("user");
+  type UserId = TnidType<typeof UserId>;
+  type StrictUserId = TnidStrictType<typeof UserId>;
+
+  // Everything NamedTnid returns is strict, and strict values are TnidValues
+  const strict: StrictUserId = UserId.new_v0();
+  const loose: UserId = strict;
+  const _parsed: StrictUserId = UserId.parse(UserId.toUuidString(loose));
+  const _batch: StrictUserId[] = UserId.new_v1_batch(2);
+
+  // The prefix is part of the type
+  const _prefix: `user.${string}` = strict;
+
+  if (false as boolean) {
+    // @ts-expect-error: a plain TnidValue is not known to have the prefix
+    const _a: StrictUserId = loose;
+
+    // @ts-expect-error: the brand is still required
+    const _b: StrictUserId = "user.Bsz5OYC2MGu7Ime0e";
+
+    // @ts-expect-error: wrong prefix
+    const _c: TnidString<"user"> = "post.Bsz5OYC2MGu7Ime0e";
+  }
+
+  assertEquals(strict.startsWith("user."), true);
+});
+
+Deno.test("compile: is() narrows literal fixtures", () => {
+  const UserId = Tnid("user");
+  type StrictUserId = TnidStrictType<typeof UserId>;
+
+  const fixture = "user.Br2flcNDfF6LYICnT" satisfies TnidString<"user">;
+  if (!UserId.is(fixture)) throw new Error("fixture should be valid");
+  const narrowed: StrictUserId = fixture;
+
+  assertEquals(narrowed, "user.Br2flcNDfF6LYICnT");
+  assertEquals(UserId.is("post.Br2flcNDfF6LYICnT"), false);
+  assertEquals(UserId.is("user.!!!"), false);
+  assertEquals(UserId.is(UserId.toUuidString(narrowed)), false);
+  assertEquals(UserId.is(42), false);
+});
+
+Deno.test("compile: DynamicTnid.getName returns the literal name type", () => {
+  const UserId = Tnid("user");
+  const PostId = Tnid("post");
+
+  const user: "user" = DynamicTnid.getName(UserId.new_v0());
+  const name: "user" | "post" = DynamicTnid.getName(
+    Math.random() < 0.5 ? UserId.new_v0() : PostId.new_v1(),
+  );
+  const dynamic: string = DynamicTnid.getName(DynamicTnid.newV0("item"));
+
+  if (false as boolean) {
+    // @ts-expect-error: the name of a UserId is "user"
+    const _wrong: "post" = DynamicTnid.getName(UserId.new_v0());
+  }
+
+  assertEquals(user, "user");
+  assertEquals(["user", "post"].includes(name), true);
+  assertEquals(dynamic, "item");
+});
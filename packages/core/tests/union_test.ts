@@ -0,0 +1,105 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { Tnid, TnidParseError, type TnidType } from "../src/index.ts";
+
+const UserId = Tnid("user");
+type UserId = TnidType<typeof UserId>;
+const PostId = Tnid("post");
+type PostId = TnidType<typeof PostId>;
+const CmntId = Tnid("cmnt");
+
+const CommentTarget = Tnid.union(UserId, PostId);
+type CommentTarget = TnidType<typeof CommentTarget>;
+
+// =============================================================================
+// Tnid.union - parse
+// =============================================================================
+
+Deno.test("union: parses TNIDs of every member name", () => {
+  const userId = UserId.new_v0();
+  const postId = PostId.new_v1();
+
+  assertEquals(CommentTarget.names, ["user", "post"]);
+  assertEquals(CommentTarget.parse(userId), userId);
+  assertEquals(CommentTarget.parse(postId), postId);
+  assertEquals(CommentTarget.parse(UserId.toUuidString(userId)), userId);
+});
+
+Deno.test("union: rejects other names and invalid input", () => {
+  const err = assertThrows(
+    () => CommentTarget.parse(CmntId.new_v0()),
+    TnidParseError,
+    'expected one of "user", "post", got "cmnt"',
+  );
+  assertEquals(err.code, "NAME_MISMATCH");
+
+  assertThrows(() => CommentTarget.parse("user.!!!"), TnidParseError);
+  assertEquals(CommentTarget.safeParse("nope").ok, false);
+  assertEquals(CommentTarget.safeParse(CmntId.new_v1()).ok, false);
+  assertEquals(CommentTarget.safeParse(PostId.new_v1()).ok, true);
+});
+
+Deno.test("union: requires at least one NamedTnid", () => {
+  assertThrows(() => Tnid.union(), Error, "at least one");
+});
+
+Deno.test("union: duplicate members are accepted once", () => {
+  assertEquals(Tnid.union(UserId, Tnid("user"), PostId).names, [
+    "user",
+    "post",
+  ]);
+});
+
+// =============================================================================
+// Tnid.union - match
+// =============================================================================
+
+Deno.test("union: match calls the handler for the ID's name", () => {
+  const describe = (id: CommentTarget) =>
+    CommentTarget.match(id, {
+      user: (userId) => `user ${UserId.variant(userId)}`,
+      post: (postId) => `post ${PostId.variant(postId)}`,
+    });
+
+  assertEquals(describe(UserId.new_v0()), "user v0");
+  assertEquals(describe(PostId.new_v1()), "post v1");
+});
+
+Deno.test("union: match throws for names outside the union", () => {
+  assertThrows(
+    () =>
+      CommentTarget.match(CmntId.new_v0() as unknown as CommentTarget, {
+        user: () => 1,
+        post: () => 2,
+      }),
+    Error,
+    'No match handler for TNID name "cmnt"',
+  );
+});
+
+// =============================================================================
+// COMPILE-TIME TESTS
+// =============================================================================
+
+Deno.test("compile: union type is the union of member TnidValues", () => {
+  const id: CommentTarget = CommentTarget.parse(UserId.new_v0());
+  const _asUnion: UserId | PostId = id;
+  const _fromUser: CommentTarget = UserId.new_v0();
+  const _fromPost: CommentTarget = PostId.new_v0();
+
+  if (false as boolean) {
+    // @ts-expect-error: a CmntId is not a CommentTarget
+    const _fromCmnt: CommentTarget = CmntId.new_v0();
+
+    // @ts-expect-error: the union may be a PostId
+    const _narrow: UserId = id;
+
+    CommentTarget.match(id, {
+      user: (userId: UserId) => userId,
+      // @ts-expect-error: handler parameter is a PostId, not a UserId
+      post: (postId: UserId) => postId,
+    });
+
+    // @ts-expect-error: handlers must cover every name
+    CommentTarget.match(id, { user: () => 1 });
+  }
+});
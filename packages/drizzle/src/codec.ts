@@ -0,0 +1,19 @@
+/**
+ * Conversion from the 16-byte binary form stored in `blob` and `binary(16)`
+ * columns to TNIDs. The other direction is `NamedTnid.toBytes`.
+ */
+
+import type { NamedTnid, TnidValue } from "@tnid/core";
+
+/**
+ * Convert 16 UUID bytes to a TNID. Accepts any `Uint8Array` (including Node
+ * `Buffer`s) or an `ArrayBuffer`, as returned by different SQLite drivers.
+ * @throws TnidParseError if the bytes are not a TNID with the expected name
+ */
+export function tnidFromBytes<Name extends string>(
+  tnid: NamedTnid<Name>,
+  bytes: Uint8Array | ArrayBuffer,
+): TnidValue<Name> {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  return tnid.fromBytes(view);
+}
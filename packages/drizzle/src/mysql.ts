@@ -0,0 +1,75 @@
+/**
+ * @tnid/drizzle/mysql - TNID columns for Drizzle ORM on MySQL
+ *
+ * @example
+ * ```typescript
+ * import { mysqlTable, text } from "drizzle-orm/mysql-core";
+ * import { Tnid } from "@tnid/core";
+ * import { tnidColumn } from "@tnid/drizzle/mysql";
+ *
+ * const UserId = Tnid("user");
+ *
+ * export const users = mysqlTable("users", {
+ *   id: tnidColumn(UserId).primaryKey(),
+ *   name: text().notNull(),
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import type { NamedTnid, TnidValue } from "@tnid/core";
+import { type HasDefault, type HasRuntimeDefault, sql } from "drizzle-orm";
+import {
+  type ConvertCustomConfig,
+  customType,
+  type MySqlCustomColumnBuilder,
+} from "drizzle-orm/mysql-core";
+import { tnidFromBytes } from "./codec.ts";
+
+/** Options for a MySQL `tnidColumn`. */
+export interface TnidMySqlColumnConfig<DbName extends string> {
+  /** Column name in the database. Defaults to the table key. */
+  name?: DbName;
+}
+
+/** The Drizzle column builder returned by the MySQL `tnidColumn`. */
+export type TnidMySqlColumnBuilder<
+  Name extends string,
+  DbName extends string,
+> = HasRuntimeDefault<
+  HasDefault<
+    MySqlCustomColumnBuilder<
+      ConvertCustomConfig<DbName, {
+        data: TnidValue<Name>;
+        driverData: Uint8Array;
+      }>
+    >
+  >
+>;
+
+/**
+ * A `binary(16)` column holding TNIDs of `tnid`'s name, as their UUID bytes.
+ * Selects and inserts are typed as `TnidValue<Name>`, and inserts without an
+ * ID get `tnid.new_v0()`.
+ *
+ * Values are written as `UNHEX('<uuid hex>')`, so no driver-specific binary
+ * parameter type is needed. Reading a value that isn't a TNID with this name
+ * throws a `TnidParseError`.
+ */
+export function tnidColumn<Name extends string, DbName extends string = "">(
+  tnid: NamedTnid<Name>,
+  config: TnidMySqlColumnConfig<DbName> = {},
+): TnidMySqlColumnBuilder<Name, DbName> {
+  const column = customType<{ data: TnidValue<Name>; driverData: Uint8Array }>(
+    {
+      dataType: () => "binary(16)",
+      toDriver: (id) =>
+        sql`UNHEX(${tnid.toUuidString(id).replaceAll("-", "")})`,
+      fromDriver: (bytes) => tnidFromBytes(tnid, bytes),
+    },
+  );
+  return column<DbName>((config.name ?? "") as DbName).$defaultFn(() =>
+    tnid.new_v0()
+  );
+}
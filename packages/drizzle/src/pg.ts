@@ -0,0 +1,67 @@
+/**
+ * @tnid/drizzle/pg - TNID columns for Drizzle ORM on Postgres
+ *
+ * @example
+ * ```typescript
+ * import { pgTable, text } from "drizzle-orm/pg-core";
+ * import { Tnid } from "@tnid/core";
+ * import { tnidColumn } from "@tnid/drizzle/pg";
+ *
+ * const UserId = Tnid("user");
+ *
+ * export const users = pgTable("users", {
+ *   id: tnidColumn(UserId).primaryKey(),
+ *   name: text().notNull(),
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import type { NamedTnid, TnidValue } from "@tnid/core";
+import type { HasDefault, HasRuntimeDefault } from "drizzle-orm";
+import {
+  type ConvertCustomConfig,
+  customType,
+  type PgCustomColumnBuilder,
+} from "drizzle-orm/pg-core";
+
+/** Options for a Postgres `tnidColumn`. */
+export interface TnidPgColumnConfig<DbName extends string> {
+  /** Column name in the database. Defaults to the table key. */
+  name?: DbName;
+}
+
+/** The Drizzle column builder returned by the Postgres `tnidColumn`. */
+export type TnidPgColumnBuilder<Name extends string, DbName extends string> =
+  HasRuntimeDefault<
+    HasDefault<
+      PgCustomColumnBuilder<
+        ConvertCustomConfig<
+          DbName,
+          { data: TnidValue<Name>; driverData: string }
+        >
+      >
+    >
+  >;
+
+/**
+ * A `uuid` column holding TNIDs of `tnid`'s name. Selects and inserts are
+ * typed as `TnidValue<Name>`, values are stored as their UUID form, and
+ * inserts without an ID get `tnid.new_v0()`.
+ *
+ * Reading a UUID that isn't a TNID with this name throws a `TnidParseError`.
+ */
+export function tnidColumn<Name extends string, DbName extends string = "">(
+  tnid: NamedTnid<Name>,
+  config: TnidPgColumnConfig<DbName> = {},
+): TnidPgColumnBuilder<Name, DbName> {
+  const column = customType<{ data: TnidValue<Name>; driverData: string }>({
+    dataType: () => "uuid",
+    toDriver: (id) => tnid.toUuidString(id),
+    fromDriver: (uuid) => tnid.parseUuidString(uuid),
+  });
+  return column<DbName>((config.name ?? "") as DbName).$defaultFn(() =>
+    tnid.new_v0()
+  );
+}
@@ -0,0 +1,82 @@
+/**
+ * @tnid/drizzle/sqlite - TNID columns for Drizzle ORM on SQLite
+ *
+ * @example
+ * ```typescript
+ * import { sqliteTable, text } from "drizzle-orm/sqlite-core";
+ * import { Tnid } from "@tnid/core";
+ * import { tnidColumn } from "@tnid/drizzle/sqlite";
+ *
+ * const UserId = Tnid("user");
+ *
+ * export const users = sqliteTable("users", {
+ *   id: tnidColumn(UserId).primaryKey(),
+ *   name: text().notNull(),
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import type { NamedTnid, TnidValue } from "@tnid/core";
+import type { HasDefault, HasRuntimeDefault } from "drizzle-orm";
+import {
+  type ConvertCustomConfig,
+  customType,
+  type SQLiteCustomColumnBuilder,
+} from "drizzle-orm/sqlite-core";
+import { tnidFromBytes } from "./codec.ts";
+
+/** Options for a SQLite `tnidColumn`. */
+export interface TnidSqliteColumnConfig<DbName extends string> {
+  /** Column name in the database. Defaults to the table key. */
+  name?: DbName;
+  /**
+   * How to store the TNID: as its 16 UUID bytes in a `blob` (the default), or
+   * as its UUID string in a `text` column.
+   */
+  mode?: "blob" | "text";
+}
+
+/** The Drizzle column builder returned by the SQLite `tnidColumn`. */
+export type TnidSqliteColumnBuilder<
+  Name extends string,
+  DbName extends string,
+> = HasRuntimeDefault<
+  HasDefault<
+    SQLiteCustomColumnBuilder<
+      ConvertCustomConfig<DbName, {
+        data: TnidValue<Name>;
+        driverData: Uint8Array | ArrayBuffer | string;
+      }>
+    >
+  >
+>;
+
+/**
+ * A `blob` (or `text`) column holding TNIDs of `tnid`'s name. Selects and
+ * inserts are typed as `TnidValue<Name>`, and inserts without an ID get
+ * `tnid.new_v0()`. Both storage modes sort V0 TNIDs by time.
+ *
+ * Reading a value that isn't a TNID with this name throws a `TnidParseError`.
+ */
+export function tnidColumn<Name extends string, DbName extends string = "">(
+  tnid: NamedTnid<Name>,
+  config: TnidSqliteColumnConfig<DbName> = {},
+): TnidSqliteColumnBuilder<Name, DbName> {
+  const text = config.mode === "text";
+  const column = customType<{
+    data: TnidValue<Name>;
+    driverData: Uint8Array | ArrayBuffer | string;
+  }>({
+    dataType: () => text ? "text" : "blob",
+    toDriver: (id) => text ? tnid.toUuidString(id) : tnid.toBytes(id),
+    fromDriver: (value) =>
+      typeof value === "string"
+        ? tnid.parseUuidString(value)
+        : tnidFromBytes(tnid, value),
+  });
+  return column<DbName>((config.name ?? "") as DbName).$defaultFn(() =>
+    tnid.new_v0()
+  );
+}
@@ -0,0 +1,75 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { eq } from "drizzle-orm";
+import { mysqlTable, text } from "drizzle-orm/mysql-core";
+import { drizzle } from "drizzle-orm/mysql-proxy";
+import { Tnid, TnidParseError } from "@tnid/core";
+import { tnidColumn } from "../src/mysql.ts";
+
+const UserId = Tnid("user");
+const PostId = Tnid("post");
+
+const users = mysqlTable("users", {
+  id: tnidColumn(UserId).primaryKey(),
+  name: text().notNull(),
+});
+
+/** A proxy database that records queries and answers with `rows`. */
+function recordingDb(rows: unknown[][] = []) {
+  const queries: { sql: string; params: unknown[] }[] = [];
+  const db = drizzle((sql, params, method) => {
+    queries.push({ sql, params });
+    return Promise.resolve({
+      rows: method === "execute" ? [{ insertId: 0, affectedRows: 1 }] : rows,
+    });
+  });
+  return { db, queries };
+}
+
+Deno.test("mysql: tnidColumn is a binary(16) column", () => {
+  assertEquals(users.id.getSQLType(), "binary(16)");
+});
+
+Deno.test("mysql: writes TNIDs with UNHEX of their UUID hex", async () => {
+  const { db, queries } = recordingDb();
+  const id = UserId.new_v0();
+  const hex = UserId.toUuidString(id).replaceAll("-", "");
+
+  await db.insert(users).values({ id, name: "Alice" });
+  await db.select().from(users).where(eq(users.id, id));
+
+  assertEquals(queries, [
+    {
+      sql: "insert into `users` (`id`, `name`) values (UNHEX(?), ?)",
+      params: [hex, "Alice"],
+    },
+    {
+      sql: "select `id`, `name` from `users` where `users`.`id` = UNHEX(?)",
+      params: [hex],
+    },
+  ]);
+});
+
+Deno.test("mysql: generates V0 IDs for inserts without one", async () => {
+  const { db, queries } = recordingDb();
+  await db.insert(users).values({ name: "Bob" });
+
+  const hex = queries[0].params[0] as string;
+  const uuid = hex.replace(
+    /^(.{8})(.{4})(.{4})(.{4})(.{12})$/,
+    "$1-$2-$3-$4-$5",
+  );
+  assertEquals(UserId.variant(UserId.parseUuidString(uuid)), "v0");
+});
+
+Deno.test("mysql: reads TNIDs from binary values", async () => {
+  const id = UserId.new_v1();
+  const { db } = recordingDb([[UserId.toBytes(id), "Alice"]]);
+
+  assertEquals(await db.select().from(users), [{ id, name: "Alice" }]);
+
+  const { db: wrong } = recordingDb([[
+    PostId.toBytes(PostId.new_v0()),
+    "Post",
+  ]]);
+  await assertRejects(() => wrong.select().from(users), TnidParseError);
+});
@@ -0,0 +1,115 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { PGlite } from "@electric-sql/pglite";
+import { eq, inArray } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/pglite";
+import { pgTable, text } from "drizzle-orm/pg-core";
+import { Tnid, TnidParseError, type TnidType } from "@tnid/core";
+import { tnidColumn } from "../src/pg.ts";
+
+const UserId = Tnid("user");
+type UserId = TnidType<typeof UserId>;
+const PostId = Tnid("post");
+type PostId = TnidType<typeof PostId>;
+
+const RANDOM_UUID = "550e8400-e29b-41d4-a716-446655440000";
+
+const users = pgTable("users", {
+  id: tnidColumn(UserId).primaryKey(),
+  name: text().notNull(),
+});
+
+const posts = pgTable("posts", {
+  id: tnidColumn(PostId).primaryKey(),
+  authorId: tnidColumn(UserId, { name: "author_id" }).notNull(),
+  title: text().notNull(),
+});
+
+async function setup() {
+  const client = await PGlite.create();
+  await client.exec(`
+    CREATE TABLE users (id uuid PRIMARY KEY, name text NOT NULL);
+    CREATE TABLE posts (
+      id uuid PRIMARY KEY,
+      author_id uuid NOT NULL REFERENCES users (id),
+      title text NOT NULL
+    );
+  `);
+  return { client, db: drizzle(client) };
+}
+
+// =============================================================================
+// Column definition
+// =============================================================================
+
+Deno.test("pg: tnidColumn is a uuid column", () => {
+  assertEquals(users.id.getSQLType(), "uuid");
+  assertEquals(users.id.name, "id");
+  assertEquals(posts.authorId.name, "author_id");
+});
+
+// =============================================================================
+// Round trips
+// =============================================================================
+
+Deno.test("pg: round-trips TNIDs through uuid columns", async () => {
+  const { client, db } = await setup();
+  try {
+    const alice = UserId.new_v0();
+    await db.insert(users).values({ id: alice, name: "Alice" });
+    const [post] = await db.insert(posts)
+      .values({ authorId: alice, title: "Hello" })
+      .returning();
+
+    assertEquals(PostId.variant(post.id), "v0");
+
+    // Stored as the UUID form
+    const raw = await client.query<{ id: string }>("SELECT id FROM users");
+    assertEquals(raw.rows[0].id, UserId.toUuidString(alice));
+
+    // Parameters in filters are converted too
+    const found = await db.select().from(posts)
+      .where(eq(posts.authorId, alice));
+    assertEquals(found, [{ id: post.id, authorId: alice, title: "Hello" }]);
+
+    const byIds = await db.select({ name: users.name }).from(users)
+      .where(inArray(users.id, [alice, UserId.new_v1()]));
+    assertEquals(byIds, [{ name: "Alice" }]);
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("pg: reading another name or a non-TNID UUID throws", async () => {
+  const { client, db } = await setup();
+  try {
+    for (const uuid of [PostId.toUuidString(PostId.new_v0()), RANDOM_UUID]) {
+      await client.query("DELETE FROM users");
+      await client.query(
+        "INSERT INTO users (id, name) VALUES ($1, 'Bob')",
+        [uuid],
+      );
+      await assertRejects(() => db.select().from(users), TnidParseError);
+    }
+  } finally {
+    await client.close();
+  }
+});
+
+// =============================================================================
+// COMPILE-TIME TESTS
+// =============================================================================
+
+Deno.test("compile: inferred select and insert types use TnidValue", () => {
+  type User = typeof users.$inferSelect;
+  type NewPost = typeof posts.$inferInsert;
+
+  const _id: UserId = {} as User["id"];
+  const _post: NewPost = { authorId: UserId.new_v0(), title: "" };
+
+  if (false as boolean) {
+    // @ts-expect-error: a PostId is not a UserId
+    const _wrong: NewPost = { authorId: PostId.new_v0(), title: "" };
+    // @ts-expect-error: plain strings are not TNIDs
+    const _string: NewPost = { authorId: "user.Br2flcNDfF6LYICnT", title: "" };
+  }
+});
@@ -0,0 +1,130 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import initSqlJs from "sql.js";
+import { eq } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/sql-js";
+import { sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { Tnid, TnidParseError, type TnidType } from "@tnid/core";
+import { tnidColumn } from "../src/sqlite.ts";
+import { tnidFromBytes } from "../src/codec.ts";
+
+const UserId = Tnid("user");
+type UserId = TnidType<typeof UserId>;
+const PostId = Tnid("post");
+
+const users = sqliteTable("users", {
+  id: tnidColumn(UserId).primaryKey(),
+  name: text().notNull(),
+});
+
+const posts = sqliteTable("posts", {
+  id: tnidColumn(PostId, { mode: "text" }).primaryKey(),
+  authorId: tnidColumn(UserId, { name: "author_id", mode: "text" }).notNull(),
+});
+
+async function setup() {
+  const SQL = await initSqlJs();
+  const client = new SQL.Database();
+  client.run(`
+    CREATE TABLE users (id blob PRIMARY KEY, name text NOT NULL);
+    CREATE TABLE posts (id text PRIMARY KEY, author_id text NOT NULL);
+  `);
+  return { client, db: drizzle(client) };
+}
+
+// =============================================================================
+// Byte conversion
+// =============================================================================
+
+Deno.test("sqlite: tnidFromBytes round-trips toBytes", () => {
+  const id = UserId.new_v1();
+  const bytes = UserId.toBytes(id);
+
+  assertEquals(bytes.length, 16);
+  assertEquals(tnidFromBytes(UserId, bytes), id);
+  assertEquals(tnidFromBytes(UserId, bytes.slice().buffer), id);
+  assertThrows(() => tnidFromBytes(PostId, bytes), TnidParseError);
+
+  const err = assertThrows(
+    () => tnidFromBytes(UserId, bytes.subarray(1)),
+    TnidParseError,
+    "expected 16 bytes, got 15",
+  );
+  assertEquals(err.code, "BAD_LENGTH");
+});
+
+// =============================================================================
+// Round trips
+// =============================================================================
+
+Deno.test("sqlite: tnidColumn defaults to blob and supports text", () => {
+  assertEquals(users.id.getSQLType(), "blob");
+  assertEquals(posts.id.getSQLType(), "text");
+  assertEquals(posts.authorId.name, "author_id");
+});
+
+Deno.test("sqlite: round-trips TNIDs through blob columns", async () => {
+  const { client, db } = await setup();
+  try {
+    const alice = UserId.new_v0();
+    await db.insert(users).values({ id: alice, name: "Alice" });
+    const [bob] = await db.insert(users).values({ name: "Bob" }).returning();
+
+    assertEquals(UserId.variant(bob.id), "v0");
+
+    // Stored as the 16 UUID bytes
+    const [[stored]] = client.exec(
+      "SELECT id FROM users WHERE name = 'Alice'",
+    )[0].values;
+    assertEquals(stored, UserId.toBytes(alice));
+
+    const found = await db.select().from(users).where(eq(users.id, alice));
+    assertEquals(found, [{ id: alice, name: "Alice" }]);
+  } finally {
+    client.close();
+  }
+});
+
+Deno.test("sqlite: round-trips TNIDs through text columns", async () => {
+  const { client, db } = await setup();
+  try {
+    const alice = UserId.new_v0();
+    const [post] = await db.insert(posts).values({ authorId: alice })
+      .returning();
+
+    const [[id, authorId]] = client.exec("SELECT * FROM posts")[0].values;
+    assertEquals(id, PostId.toUuidString(post.id));
+    assertEquals(authorId, UserId.toUuidString(alice));
+
+    assertEquals(await db.select().from(posts), [post]);
+  } finally {
+    client.close();
+  }
+});
+
+Deno.test("sqlite: reading another name throws", async () => {
+  const { client, db } = await setup();
+  try {
+    client.run("INSERT INTO users (id, name) VALUES (?, 'Post')", [
+      PostId.toBytes(PostId.new_v0()),
+    ]);
+    assertThrows(() => db.select().from(users).all(), TnidParseError);
+  } finally {
+    client.close();
+  }
+});
+
+// =============================================================================
+// COMPILE-TIME TESTS
+// =============================================================================
+
+Deno.test("compile: inferred select and insert types use TnidValue", () => {
+  type NewUser = typeof users.$inferInsert;
+
+  const _id: UserId = {} as typeof users.$inferSelect["id"];
+  const _user: NewUser = { name: "" };
+
+  if (false as boolean) {
+    // @ts-expect-error: a PostId is not a UserId
+    const _wrong: NewUser = { id: PostId.new_v0(), name: "" };
+  }
+});
@@ -109,9 +109,13 @@ export class Blocklist {
     return { start: m.index, length: m[0].length };
   }
 
-  /** Get a starting timestamp: max of current time and last known safe timestamp. */
-  getStartingTimestamp(): bigint {
-    const current = BigInt(Date.now());
+  /**
+   * Get a starting timestamp: max of current time and last known safe timestamp.
+   *
+   * @param now - The current time in milliseconds (defaults to `Date.now()`).
+   */
+  getStartingTimestamp(now: number = Date.now()): bigint {
+    const current = BigInt(Math.floor(now));
     return current > this.lastSafeTimestamp ? current : this.lastSafeTimestamp;
   }
 
@@ -5,7 +5,12 @@
  * in their data string representation.
  */
 
-import { DynamicTnid, type NamedTnid, type TnidValue } from "@tnid/core";
+import {
+  DynamicTnid,
+  getDefaultTnidSource,
+  type NamedTnid,
+  type TnidValue,
+} from "@tnid/core";
 import type { Blocklist } from "./blocklist.ts";
 import {
   dataString,
@@ -51,10 +56,11 @@ export function newV0Filtered<Name extends string>(
   blocklist: Blocklist,
 ): TnidValue<Name> {
   const maxIterations = blocklist.limits().maxV0Iterations;
-  let timestamp = blocklist.getStartingTimestamp();
+  const source = factory.source;
+  let timestamp = blocklist.getStartingTimestamp(source.clock());
 
   for (let i = 0; i < maxIterations; i++) {
-    const random = randomBigInt(V0_RANDOM_BITS);
+    const random = randomBigInt(V0_RANDOM_BITS, source);
     const id = factory.v0_from_parts(timestamp, random);
     const data = dataString(id);
 
@@ -94,7 +100,7 @@ export function newV1Filtered<Name extends string>(
   const maxIterations = blocklist.limits().maxV1Iterations;
 
   for (let i = 0; i < maxIterations; i++) {
-    const random = randomBigInt(V1_RANDOM_BITS);
+    const random = randomBigInt(V1_RANDOM_BITS, factory.source);
     const id = factory.v1_from_parts(random);
     const data = dataString(id);
 
@@ -118,10 +124,11 @@ export function newDynamicV0Filtered(
   blocklist: Blocklist,
 ): DynamicTnid {
   const maxIterations = blocklist.limits().maxV0Iterations;
-  let timestamp = blocklist.getStartingTimestamp();
+  const source = getDefaultTnidSource();
+  let timestamp = blocklist.getStartingTimestamp(source.clock());
 
   for (let i = 0; i < maxIterations; i++) {
-    const random = randomBigInt(V0_RANDOM_BITS);
+    const random = randomBigInt(V0_RANDOM_BITS, source);
     const id = DynamicTnid.newV0WithParts(name, timestamp, random);
     const data = dataString(id);
 
@@ -151,7 +158,7 @@ export function newDynamicV1Filtered(
   const maxIterations = blocklist.limits().maxV1Iterations;
 
   for (let i = 0; i < maxIterations; i++) {
-    const random = randomBigInt(V1_RANDOM_BITS);
+    const random = randomBigInt(V1_RANDOM_BITS, getDefaultTnidSource());
     const id = DynamicTnid.newV1WithRandom(name, random);
     const data = dataString(id);
 
@@ -21,7 +21,12 @@
  * @module
  */
 
-import { DynamicTnid, type NamedTnid, type TnidValue } from "@tnid/core";
+import {
+  DynamicTnid,
+  getDefaultTnidSource,
+  type NamedTnid,
+  type TnidValue,
+} from "@tnid/core";
 import { type EncryptionKey, encryptV0ToV1 } from "@tnid/encryption";
 import type { Blocklist } from "./blocklist.ts";
 import { FilterError } from "./filter.ts";
@@ -64,10 +69,11 @@ export async function newV0FilteredForEncryption<Name extends string>(
   key: EncryptionKey,
 ): Promise<TnidValue<Name>> {
   const maxIterations = blocklist.limits().maxEncryptionIterations;
-  let timestamp = blocklist.getStartingTimestamp();
+  const source = factory.source;
+  let timestamp = blocklist.getStartingTimestamp(source.clock());
 
   for (let i = 0; i < maxIterations; i++) {
-    const random = randomBigInt(V0_RANDOM_BITS);
+    const random = randomBigInt(V0_RANDOM_BITS, source);
     const v0 = factory.v0_from_parts(timestamp, random);
     const v0Data = dataString(v0);
 
@@ -106,10 +112,11 @@ export async function newDynamicV0FilteredForEncryption(
   key: EncryptionKey,
 ): Promise<DynamicTnid> {
   const maxIterations = blocklist.limits().maxEncryptionIterations;
-  let timestamp = blocklist.getStartingTimestamp();
+  const source = getDefaultTnidSource();
+  let timestamp = blocklist.getStartingTimestamp(source.clock());
 
   for (let i = 0; i < maxIterations; i++) {
-    const random = randomBigInt(V0_RANDOM_BITS);
+    const random = randomBigInt(V0_RANDOM_BITS, source);
     const v0 = DynamicTnid.newV0WithParts(name, timestamp, random);
     const v0Data = dataString(v0);
 
@@ -3,6 +3,8 @@
  * @internal Not part of the public API.
  */
 
+import type { TnidSource } from "@tnid/core";
+
 // V0 data string character layout:
 // Chars 0-6: pure timestamp bits
 // Char 7: 1 timestamp bit + 2 variant bits + 3 random bits
@@ -13,9 +15,9 @@ export const V0_RANDOM_BITS = 57;
 export const V1_RANDOM_BITS = 100;
 
 /** Generate a random bigint with the specified number of bits. */
-export function randomBigInt(bits: number): bigint {
+export function randomBigInt(bits: number, source: TnidSource): bigint {
   const bytes = new Uint8Array(Math.ceil(bits / 8));
-  crypto.getRandomValues(bytes);
+  source.random(bytes);
   let result = 0n;
   for (const b of bytes) result = (result << 8n) | BigInt(b);
   return result & ((1n << BigInt(bits)) - 1n);
@@ -1,5 +1,10 @@
 import { assertEquals, assertThrows } from "@std/assert";
-import { DynamicTnid, Tnid } from "@tnid/core";
+import {
+  DynamicTnid,
+  setDefaultTnidSource,
+  Tnid,
+  type TnidSource,
+} from "@tnid/core";
 import {
   Blocklist,
   FilterError,
@@ -131,3 +136,54 @@ Deno.test("newV0Filtered: throws FilterError with extremely restrictive blocklis
     FilterError,
   );
 });
+
+// ============================================================================
+// Time and randomness sources
+// ============================================================================
+
+function fixedSource(ms: number): TnidSource {
+  let next = 0;
+  return {
+    clock: () => ms,
+    random: (bytes) => {
+      for (let i = 0; i < bytes.length; i++) bytes[i] = (next++ * 37) & 0xff;
+    },
+  };
+}
+
+Deno.test("filtered generation uses the NamedTnid's source", () => {
+  const make = () => Tnid("user", fixedSource(1700000000000));
+  const a = make();
+  const b = make();
+
+  assertEquals(
+    newV0Filtered(a, new Blocklist(["TACO"])),
+    newV0Filtered(b, new Blocklist(["TACO"])),
+  );
+  assertEquals(
+    newV1Filtered(a, new Blocklist(["TACO"])),
+    newV1Filtered(b, new Blocklist(["TACO"])),
+  );
+  assertEquals(
+    a.timestampMillis(newV0Filtered(a, new Blocklist([]))),
+    1700000000000n,
+  );
+});
+
+Deno.test("dynamic filtered generation uses the default source", () => {
+  const generate = () => {
+    setDefaultTnidSource(fixedSource(1700000000000));
+    try {
+      return [
+        newDynamicV0Filtered("user", new Blocklist(["TACO"])),
+        newDynamicV1Filtered("user", new Blocklist(["TACO"])),
+      ];
+    } finally {
+      setDefaultTnidSource();
+    }
+  };
+
+  const ids = generate();
+  assertEquals(ids, generate());
+  assertEquals(DynamicTnid.getTimestampMillis(ids[0]), 1700000000000n);
+});
@@ -0,0 +1,25 @@
+/**
+ * @tnid/kysely - Store TNIDs in `uuid` columns with Kysely
+ *
+ * A Kysely plugin that sends TNID parameters as UUIDs and returns `uuid`
+ * columns as TNID strings, driven by a map of table columns to NamedTnids.
+ *
+ * @example
+ * ```typescript
+ * import { Kysely } from "kysely";
+ * import { tnidPlugin } from "@tnid/kysely";
+ *
+ * const db = new Kysely<Database>({
+ *   dialect,
+ *   plugins: [tnidPlugin({ users: { id: UserId } })],
+ * });
+ * ```
+ *
+ * @module
+ */
+
+export {
+  type TnidColumnMap,
+  tnidPlugin,
+  type TnidPluginOptions,
+} from "./plugin.ts";
@@ -0,0 +1,334 @@
+/**
+ * Kysely plugin that stores TNIDs in `uuid` columns.
+ */
+
+import { DynamicTnid, type NamedTnid, Tnid, type TnidUnion } from "@tnid/core";
+import {
+  AliasNode,
+  type BinaryOperationNode,
+  ColumnNode,
+  type ColumnUpdateNode,
+  DeleteQueryNode,
+  IdentifierNode,
+  InsertQueryNode,
+  type KyselyPlugin,
+  type OperationNode,
+  OperationNodeTransformer,
+  PrimitiveValueListNode,
+  type QueryId,
+  type QueryResult,
+  ReferenceNode,
+  type RootOperationNode,
+  type SelectionNode,
+  SelectQueryNode,
+  TableNode,
+  type UnknownRow,
+  UpdateQueryNode,
+  ValueListNode,
+  ValueNode,
+  ValuesNode,
+} from "kysely";
+
+/**
+ * NamedTnids to convert columns with, keyed by table name, then column name.
+ *
+ * @example
+ * ```typescript
+ * const columns: TnidColumnMap = {
+ *   users: { id: UserId },
+ *   posts: { id: PostId, author_id: UserId },
+ * };
+ * ```
+ */
+export type TnidColumnMap = Record<string, Record<string, NamedTnid<string>>>;
+
+/** Options for `tnidPlugin`. */
+export interface TnidPluginOptions {
+  /**
+   * What to do with a result value of a mapped column that is not a TNID of
+   * its NamedTnids: `"throw"` its `TnidParseError` (the default), or `"keep"`
+   * the value unchanged, e.g. for `selectAll()` joins with tables whose
+   * same-named columns hold plain UUIDs.
+   */
+  nonTnid?: "throw" | "keep";
+}
+
+/** Finds the NamedTnids of the columns referenced by one query. */
+class ColumnLookup {
+  readonly #columns: TnidColumnMap;
+  /** Tables of the query, keyed by name or alias. */
+  readonly #tables = new Map<string, string>();
+  /** Tables of qualified result columns (`posts.author_id`), by column. */
+  readonly #resultTables = new Map<string, string>();
+  readonly #unions = new Map<string, TnidUnion<string> | undefined>();
+
+  constructor(columns: TnidColumnMap, node: RootOperationNode) {
+    this.#columns = columns;
+    this.#collectTables(node);
+    this.#collectResultTables(node);
+  }
+
+  /**
+   * The NamedTnids `column` may hold: those mapped for it in `table`, or in
+   * any table of the query if unqualified. `undefined` if none are mapped.
+   */
+  get(column: string, table?: string): TnidUnion<string> | undefined {
+    const key = `${table ?? ""}.${column}`;
+    if (!this.#unions.has(key)) {
+      const tables = table === undefined
+        ? new Set(this.#tables.values())
+        : [this.#tables.get(table) ?? table];
+      const tnids: NamedTnid<string>[] = [];
+      for (const t of tables) {
+        const mapped = Object.hasOwn(this.#columns, t)
+          ? this.#columns[t]
+          : undefined;
+        if (mapped !== undefined && Object.hasOwn(mapped, column)) {
+          tnids.push(mapped[column]);
+        }
+      }
+      this.#unions.set(
+        key,
+        tnids.length === 0 ? undefined : Tnid.union(...tnids),
+      );
+    }
+    return this.#unions.get(key);
+  }
+
+  /**
+   * The NamedTnids of a result column: those of its table if it was selected
+   * qualified, else as for an unqualified `get`.
+   */
+  getForResult(column: string): TnidUnion<string> | undefined {
+    return this.get(column, this.#resultTables.get(column));
+  }
+
+  /** Get the NamedTnids of a column or column reference node. */
+  getForNode(node: OperationNode): TnidUnion<string> | undefined {
+    if (ColumnNode.is(node)) return this.get(node.column.name);
+    if (ReferenceNode.is(node)) {
+      const { column, table } = node;
+      if (ColumnNode.is(column)) {
+        return this.get(column.column.name, table?.table.identifier.name);
+      }
+    }
+    return undefined;
+  }
+
+  #collectResultTables(node: RootOperationNode): void {
+    let selections: readonly SelectionNode[] | undefined;
+    if (SelectQueryNode.is(node)) {
+      selections = node.selections;
+    } else if (
+      InsertQueryNode.is(node) || UpdateQueryNode.is(node) ||
+      DeleteQueryNode.is(node)
+    ) {
+      selections = node.returning?.selections;
+    }
+
+    for (const { selection } of selections ?? []) {
+      if (
+        ReferenceNode.is(selection) && ColumnNode.is(selection.column) &&
+        selection.table !== undefined
+      ) {
+        this.#resultTables.set(
+          selection.column.column.name,
+          selection.table.table.identifier.name,
+        );
+      }
+    }
+  }
+
+  #collectTables(node: unknown): void {
+    if (typeof node !== "object" || node === null) return;
+    if (Array.isArray(node)) {
+      for (const child of node) this.#collectTables(child);
+      return;
+    }
+    const op = node as OperationNode;
+    if (TableNode.is(op)) {
+      // Qualified column references are TableNodes too: keep their alias
+      const name = op.table.identifier.name;
+      if (!this.#tables.has(name)) this.#tables.set(name, name);
+    } else if (
+      AliasNode.is(op) && TableNode.is(op.node) && IdentifierNode.is(op.alias)
+    ) {
+      this.#tables.set(op.alias.name, op.node.table.identifier.name);
+    }
+    for (const child of Object.values(node)) this.#collectTables(child);
+  }
+}
+
+/** Apply `convert` to a string, or to the strings in an array. */
+function convert(value: unknown, fn: (s: string) => string): unknown {
+  if (typeof value === "string") return fn(value);
+  if (Array.isArray(value)) return value.map((item) => convert(item, fn));
+  return value;
+}
+
+/** Encode a parameter of a TNID column as its UUID. */
+function encode(tnids: TnidUnion<string>, value: unknown): unknown {
+  return convert(value, (s) => DynamicTnid.toUuidString(tnids.parse(s)));
+}
+
+/** Encode the value of a value node, leaving other nodes unchanged. */
+function encodeNode(
+  tnids: TnidUnion<string> | undefined,
+  node: OperationNode,
+): OperationNode {
+  if (tnids === undefined) return node;
+  if (ValueNode.is(node)) {
+    const encoded: ValueNode = { ...node, value: encode(tnids, node.value) };
+    return encoded;
+  }
+  if (PrimitiveValueListNode.is(node)) {
+    return PrimitiveValueListNode.create(
+      node.values.map((value) => encode(tnids, value)),
+    );
+  }
+  if (ValueListNode.is(node)) {
+    return ValueListNode.create(
+      node.values.map((value) => encodeNode(tnids, value)),
+    );
+  }
+  return node;
+}
+
+/** Rewrites parameters bound to TNID columns to their UUID form. */
+class TnidParamTransformer extends OperationNodeTransformer {
+  readonly #lookup: ColumnLookup;
+
+  constructor(lookup: ColumnLookup) {
+    super();
+    this.#lookup = lookup;
+  }
+
+  protected override transformInsertQuery(
+    node: InsertQueryNode,
+    queryId?: QueryId,
+  ): InsertQueryNode {
+    const result = super.transformInsertQuery(node, queryId);
+    if (
+      result.columns === undefined || result.values === undefined ||
+      !ValuesNode.is(result.values)
+    ) {
+      return result;
+    }
+
+    const table = result.into?.table.identifier.name;
+    const tnids = result.columns.map((c) =>
+      this.#lookup.get(c.column.name, table)
+    );
+    if (tnids.every((t) => t === undefined)) return result;
+
+    const rows = result.values.values.map((row) =>
+      PrimitiveValueListNode.is(row)
+        ? PrimitiveValueListNode.create(
+          row.values.map((value, i) =>
+            tnids[i] === undefined ? value : encode(tnids[i], value)
+          ),
+        )
+        : ValueListNode.create(
+          row.values.map((value, i) => encodeNode(tnids[i], value)),
+        )
+    );
+    return InsertQueryNode.cloneWith(result, {
+      values: ValuesNode.create(rows),
+    });
+  }
+
+  protected override transformColumnUpdate(
+    node: ColumnUpdateNode,
+    queryId?: QueryId,
+  ): ColumnUpdateNode {
+    const result = super.transformColumnUpdate(node, queryId);
+    const tnids = this.#lookup.getForNode(result.column);
+    return { ...result, value: encodeNode(tnids, result.value) };
+  }
+
+  protected override transformBinaryOperation(
+    node: BinaryOperationNode,
+    queryId?: QueryId,
+  ): BinaryOperationNode {
+    const result = super.transformBinaryOperation(node, queryId);
+    const tnids = this.#lookup.getForNode(result.leftOperand);
+    return {
+      ...result,
+      rightOperand: encodeNode(tnids, result.rightOperand),
+    };
+  }
+}
+
+/**
+ * A Kysely plugin that converts the columns in `columns` between TNIDs and
+ * UUIDs: parameters bound to them are sent as UUIDs, and result values are
+ * returned as TNID strings.
+ *
+ * Parameters are matched to columns in inserts, updates and comparisons
+ * (`=`, `in`, ...) with a column on the left. Result values of qualified
+ * selections (`posts.author_id`) are matched in their table, others by
+ * their column name in the tables of the query, so aliased selections are
+ * left alone. When an unqualified column name is mapped in several tables of
+ * a query (e.g. `id` in a join), values may be a TNID of any of them.
+ *
+ * @throws TnidParseError from queries, if a parameter or result value of a
+ * mapped column is not a TNID of one of its NamedTnids, unless `nonTnid` is
+ * `"keep"` (for result values)
+ *
+ * @example
+ * ```typescript
+ * import { Kysely, PostgresDialect } from "kysely";
+ *
+ * const db = new Kysely<Database>({
+ *   dialect: new PostgresDialect({ pool }),
+ *   plugins: [
+ *     tnidPlugin({
+ *       users: { id: UserId },
+ *       posts: { id: PostId, author_id: UserId },
+ *     }),
+ *   ],
+ * });
+ *
+ * const posts = await db.selectFrom("posts").selectAll()
+ *   .where("author_id", "=", userId)
+ *   .execute();
+ * posts[0].id; // "post.Br2flcNDfF6LYICnT"
+ * ```
+ */
+export function tnidPlugin(
+  columns: TnidColumnMap,
+  options: TnidPluginOptions = {},
+): KyselyPlugin {
+  const queries = new WeakMap<QueryId, ColumnLookup>();
+  const decode = (tnids: TnidUnion<string>, s: string): string => {
+    if (options.nonTnid !== "keep") return tnids.parse(s);
+    const result = tnids.safeParse(s);
+    return result.ok ? result.value : s;
+  };
+
+  return {
+    transformQuery({ node, queryId }) {
+      const lookup = new ColumnLookup(columns, node);
+      queries.set(queryId, lookup);
+      return new TnidParamTransformer(lookup).transformNode(node, queryId);
+    },
+
+    transformResult({ queryId, result }) {
+      const lookup = queries.get(queryId);
+      if (lookup === undefined || result.rows.length === 0) {
+        return Promise.resolve(result);
+      }
+      const rows = result.rows.map((row) => {
+        const decoded: UnknownRow = { ...row };
+        for (const [column, value] of Object.entries(row)) {
+          const tnids = lookup.getForResult(column);
+          if (tnids !== undefined) {
+            decoded[column] = convert(value, (s) => decode(tnids, s));
+          }
+        }
+        return decoded;
+      });
+      return Promise.resolve<QueryResult<UnknownRow>>({ ...result, rows });
+    },
+  };
+}
@@ -0,0 +1,239 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+// @ts-types="@types/pg"
+import pg from "pg";
+import {
+  DummyDriver,
+  type Generated,
+  Kysely,
+  type KyselyPlugin,
+  PostgresAdapter,
+  PostgresDialect,
+  PostgresIntrospector,
+  PostgresQueryCompiler,
+  sql,
+} from "kysely";
+import { DynamicTnid, Tnid, TnidParseError, type TnidType } from "@tnid/core";
+import { tnidPlugin } from "../src/index.ts";
+import { startTestServer } from "../../../test_support/pglite_server.ts";
+
+const UserId = Tnid("user");
+type UserId = TnidType<typeof UserId>;
+const PostId = Tnid("post");
+type PostId = TnidType<typeof PostId>;
+
+interface Database {
+  users: { id: UserId; name: string };
+  posts: {
+    id: PostId;
+    author_id: UserId | null;
+    editor_ids: Generated<UserId[]>;
+    title: string;
+  };
+  /** Not mapped: `author_id` holds plain UUIDs (created by the join tests). */
+  imports: { id: string; author_id: string; source: string };
+}
+
+const columns = {
+  users: { id: UserId },
+  posts: { id: PostId, author_id: UserId, editor_ids: UserId },
+};
+const plugin = tnidPlugin(columns);
+
+/** A Kysely instance that only compiles queries. */
+const compiler = new Kysely<Database>({
+  dialect: {
+    createAdapter: () => new PostgresAdapter(),
+    createDriver: () => new DummyDriver(),
+    createIntrospector: (db) => new PostgresIntrospector(db),
+    createQueryCompiler: () => new PostgresQueryCompiler(),
+  },
+  plugins: [plugin],
+});
+
+/** Run `fn` against a fresh PGlite server, destroying Kysely afterwards. */
+async function withDb(
+  fn: (db: Kysely<Database>) => Promise<void>,
+  dbPlugin: KyselyPlugin = plugin,
+) {
+  const server = await startTestServer();
+  const db = new Kysely<Database>({
+    dialect: new PostgresDialect({
+      pool: new pg.Pool({
+        host: server.host,
+        port: server.port,
+        user: "postgres",
+        database: "postgres",
+        max: 1,
+      }),
+    }),
+    plugins: [dbPlugin],
+  });
+  try {
+    await fn(db);
+  } finally {
+    await db.destroy();
+    await server.close();
+  }
+}
+
+// ============================================================================
+// Parameters
+// ============================================================================
+
+Deno.test("plugin: converts parameters of mapped columns to UUIDs", () => {
+  const user = UserId.new_v0();
+  const post = PostId.new_v1();
+  const uuid = (id: UserId | PostId) => DynamicTnid.toUuidString(id);
+
+  const insert = compiler.insertInto("posts")
+    .values({ id: post, author_id: user, editor_ids: [user], title: "x" })
+    .compile();
+  assertEquals(insert.parameters, [uuid(post), uuid(user), [uuid(user)], "x"]);
+
+  const select = compiler.selectFrom("posts").selectAll()
+    .where("author_id", "=", user)
+    .where("posts.id", "in", [post])
+    .where("title", "=", "user.Br2flcNDfF6LYICnT")
+    .compile();
+  assertEquals(select.parameters, [
+    uuid(user),
+    uuid(post),
+    "user.Br2flcNDfF6LYICnT",
+  ]);
+
+  const update = compiler.updateTable("users").set({ id: user })
+    .where("name", "=", "Alice").compile();
+  assertEquals(update.parameters, [uuid(user), "Alice"]);
+});
+
+Deno.test("plugin: resolves aliased tables and joins", () => {
+  const user = UserId.new_v0();
+  const post = PostId.new_v0();
+
+  const query = compiler.selectFrom("posts as p")
+    .innerJoin("users as u", "u.id", "p.author_id")
+    .select(["p.id", "u.name"])
+    .where("u.id", "=", user)
+    .where("p.id", "=", post)
+    .compile();
+  assertEquals(query.parameters, [
+    UserId.toUuidString(user),
+    PostId.toUuidString(post),
+  ]);
+});
+
+Deno.test("plugin: rejects parameters with the wrong name", () => {
+  assertThrows(
+    () =>
+      compiler.selectFrom("users").selectAll()
+        .where("id", "=", PostId.new_v0() as unknown as UserId)
+        .compile(),
+    TnidParseError,
+    'expected one of "user", got "post"',
+  );
+});
+
+// ============================================================================
+// Round trips
+// ============================================================================
+
+Deno.test("plugin: round-trips TNIDs through uuid columns", async () => {
+  await withDb(async (db) => {
+    const alice = UserId.new_v0();
+    const bob = UserId.new_v1();
+    await db.insertInto("users")
+      .values([{ id: alice, name: "Alice" }, { id: bob, name: "Bob" }])
+      .execute();
+
+    const post = await db.insertInto("posts")
+      .values({
+        id: PostId.new_v0(),
+        author_id: alice,
+        editor_ids: [alice, bob],
+        title: "Hello",
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+    assertEquals(post.author_id, alice);
+    assertEquals(post.editor_ids, [alice, bob]);
+
+    const rows = await db.selectFrom("posts")
+      .innerJoin("users", "users.id", "posts.author_id")
+      .select(["posts.id", "posts.author_id", "users.name"])
+      .where("users.id", "in", [alice, bob])
+      .execute();
+    assertEquals(rows, [{ id: post.id, author_id: alice, name: "Alice" }]);
+
+    // Unmapped aliases come back as UUIDs
+    const raw = await db.selectFrom("users")
+      .select("id as raw_id")
+      .where("id", "=", bob)
+      .executeTakeFirstOrThrow();
+    assertEquals(raw, { raw_id: UserId.toUuidString(bob) });
+  });
+});
+
+/** Create the unmapped `imports` table with one row, and a post. */
+async function insertImport(db: Kysely<Database>) {
+  const alice = UserId.new_v0();
+  const post = PostId.new_v0();
+  const imported = { id: crypto.randomUUID(), author_id: crypto.randomUUID() };
+  await sql`CREATE TABLE imports (
+    id uuid PRIMARY KEY,
+    author_id uuid NOT NULL,
+    source text NOT NULL
+  )`.execute(db);
+  await db.insertInto("users").values({ id: alice, name: "Alice" }).execute();
+  await db.insertInto("posts")
+    .values({ id: post, author_id: alice, title: "Hello" })
+    .execute();
+  await db.insertInto("imports").values({ ...imported, source: "csv" })
+    .execute();
+  return { post, imported };
+}
+
+Deno.test("plugin: qualified columns of unmapped joined tables are left alone", async () => {
+  await withDb(async (db) => {
+    const { post, imported } = await insertImport(db);
+
+    const rows = await db.selectFrom("posts as p")
+      .crossJoin("imports as i")
+      .select(["p.id", "i.author_id", "i.source"])
+      .execute();
+    assertEquals(rows, [
+      { id: post, author_id: imported.author_id, source: "csv" },
+    ]);
+  });
+});
+
+Deno.test("plugin: nonTnid keep returns unmapped joined UUIDs unchanged", async () => {
+  // selectAll() can't be traced to tables: both `id`s and `author_id`s
+  // match the posts mapping, and the row holds the imports values
+  await withDb(async (db) => {
+    await insertImport(db);
+    await assertRejects(
+      () => db.selectFrom("posts").crossJoin("imports").selectAll().execute(),
+      TnidParseError,
+    );
+  });
+
+  await withDb(async (db) => {
+    const { imported } = await insertImport(db);
+    const [row] = await db.selectFrom("posts").crossJoin("imports")
+      .selectAll()
+      .execute();
+    assertEquals(row.id, imported.id);
+    assertEquals(row.author_id, imported.author_id);
+  }, tnidPlugin(columns, { nonTnid: "keep" }));
+});
+
+Deno.test("plugin: reading a non-TNID uuid throws", async () => {
+  await withDb(async (db) => {
+    await sql`INSERT INTO users (id, name) VALUES (gen_random_uuid(), 'x')`
+      .execute(db);
+    await assertRejects(
+      () => db.selectFrom("users").selectAll().execute(),
+      TnidParseError,
+    );
+  });
+});
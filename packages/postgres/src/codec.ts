@@ -0,0 +1,121 @@
+/**
+ * Driver-independent conversion between TNIDs and Postgres `uuid` values.
+ */
+
+import {
+  DynamicTnid,
+  type NamedTnid,
+  TnidParseError,
+  type TnidStrictType,
+} from "@tnid/core";
+
+/** OID of the Postgres `uuid` type. */
+export const UUID_OID = 2950;
+/** OID of the Postgres `uuid[]` type. */
+export const UUID_ARRAY_OID = 2951;
+
+/** Options for decoding `uuid` values. */
+export interface TnidDecodeOptions {
+  /**
+   * What to do with a `uuid` value that is not a valid TNID: `"throw"` its
+   * `TnidParseError` (the default), or `"keep"` the UUID string unchanged,
+   * e.g. when other tables use `gen_random_uuid()`.
+   */
+  nonTnid?: "throw" | "keep";
+}
+
+/** NamedTnids to decode specific columns with, keyed by column name. */
+export type TnidColumns = Record<string, NamedTnid<string>>;
+
+/**
+ * A row with the `columns` decoded by `decodeTnidColumns`. Columns are
+ * nullable only if `Row` says so: untyped (`any` / `unknown`) columns, as in
+ * node-postgres rows, are assumed non-null.
+ */
+export type TnidRow<Row, Columns extends TnidColumns> =
+  & Omit<Row, keyof Columns>
+  & {
+    [K in keyof Columns]: K extends keyof Row
+      ? unknown extends Row[K] ? TnidStrictType<Columns[K]>
+      : null extends Row[K] ? TnidStrictType<Columns[K]> | null
+      : TnidStrictType<Columns[K]>
+      : TnidStrictType<Columns[K]>;
+  };
+
+/**
+ * Decode a `uuid` value (in Postgres text format) to a `DynamicTnid`. With
+ * `nonTnid: "keep"`, UUIDs that aren't TNIDs are returned as plain strings.
+ * @throws TnidParseError if the UUID is not a TNID, unless `nonTnid` is `"keep"`
+ */
+export function decodeUuid(
+  value: string,
+  options?: TnidDecodeOptions & { nonTnid?: "throw" },
+): DynamicTnid;
+export function decodeUuid(
+  value: string,
+  options: TnidDecodeOptions,
+): DynamicTnid | string;
+export function decodeUuid(
+  value: string,
+  options: TnidDecodeOptions = {},
+): DynamicTnid | string {
+  try {
+    return DynamicTnid.parseUuidString(value);
+  } catch (e) {
+    if (e instanceof TnidParseError && options.nonTnid === "keep") {
+      return value;
+    }
+    throw e;
+  }
+}
+
+/**
+ * Encode a value bound to a `uuid` parameter: TNID strings become their UUID
+ * form, anything else is passed through as a string.
+ * @throws TnidParseError if the value looks like a TNID string but is invalid
+ */
+export function encodeUuid(value: unknown): string {
+  const s = String(value);
+  return s.includes(".")
+    ? DynamicTnid.toUuidString(DynamicTnid.parseTnidString(s))
+    : s;
+}
+
+/** Whether `value` is a valid TNID string (not UUID form). */
+export function isTnidString(value: unknown): value is DynamicTnid {
+  if (typeof value !== "string" || !value.includes(".")) return false;
+  try {
+    DynamicTnid.parseTnidString(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Re-parse the given columns of a row with their NamedTnids, validating the
+ * name and narrowing the type. Works with any driver: values may be TNID
+ * strings (from a decoding type parser) or raw UUID strings. `null`s are kept.
+ *
+ * @example
+ * ```typescript
+ * const { rows } = await client.query("SELECT id, author_id FROM posts");
+ * const posts = rows.map((row) =>
+ *   decodeTnidColumns(row, { id: PostId, author_id: UserId })
+ * );
+ * posts[0].author_id; // StrictTnidValue<"user">
+ * ```
+ */
+export function decodeTnidColumns<
+  Row extends Record<string, unknown>,
+  Columns extends TnidColumns,
+>(row: Row, columns: Columns): TnidRow<Row, Columns> {
+  const decoded: Record<string, unknown> = { ...row };
+  for (const [column, tnid] of Object.entries(columns)) {
+    const value = row[column];
+    if (value !== null && value !== undefined) {
+      decoded[column] = tnid.parse(String(value));
+    }
+  }
+  return decoded as TnidRow<Row, Columns>;
+}
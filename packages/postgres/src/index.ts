@@ -0,0 +1,41 @@
+/**
+ * @tnid/postgres - Store TNIDs in native Postgres `uuid` columns
+ *
+ * Codecs for node-postgres and postgres.js that decode `uuid` columns to
+ * TNIDs and serialize TNID parameters as UUIDs. Neither driver is a
+ * dependency: pass in the driver's own objects.
+ *
+ * @example
+ * ```typescript
+ * import postgres from "postgres";
+ * import { tnidPostgresType } from "@tnid/postgres";
+ *
+ * const sql = postgres({ types: { tnid: tnidPostgresType() } });
+ * const [user] = await sql`SELECT id FROM users WHERE id = ${userId}`;
+ * ```
+ *
+ * @module
+ */
+
+export {
+  decodeTnidColumns,
+  decodeUuid,
+  encodeUuid,
+  type TnidColumns,
+  type TnidDecodeOptions,
+  type TnidRow,
+  UUID_ARRAY_OID,
+  UUID_OID,
+} from "./codec.ts";
+export {
+  type PgTypeParser,
+  type PgTypes,
+  tnidParams,
+  tnidPgTypes,
+} from "./pg.ts";
+export {
+  type PostgresJsTransform,
+  type PostgresJsType,
+  tnidPostgresTransform,
+  tnidPostgresType,
+} from "./postgres_js.ts";
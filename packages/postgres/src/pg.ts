@@ -0,0 +1,84 @@
+/**
+ * node-postgres (`pg`) integration.
+ */
+
+import {
+  decodeUuid,
+  encodeUuid,
+  isTnidString,
+  type TnidDecodeOptions,
+  UUID_ARRAY_OID,
+  UUID_OID,
+} from "./codec.ts";
+
+/**
+ * The part of node-postgres' type parser registry used here: `pg.types`, or
+ * the `types` option of a `Client` / `Pool`.
+ */
+export interface PgTypes {
+  getTypeParser(oid: number, format?: unknown): PgTypeParser;
+}
+
+/** A node-postgres type parser, converting a text value to its JS value. */
+export type PgTypeParser = (value: string) => unknown;
+
+/**
+ * Type parsers for node-postgres that decode `uuid` and `uuid[]` columns to
+ * `DynamicTnid`s, and delegate every other type to `base`.
+ *
+ * @example
+ * ```typescript
+ * import pg from "pg";
+ *
+ * const client = new pg.Client({ types: tnidPgTypes(pg.types) });
+ * const { rows } = await client.query("SELECT id FROM users");
+ * rows[0].id; // "user.Br2flcNDfF6LYICnT"
+ * ```
+ */
+export function tnidPgTypes(
+  base: PgTypes,
+  options: TnidDecodeOptions = {},
+): PgTypes {
+  const parseUuid = (value: string) => decodeUuid(value, options);
+
+  return {
+    getTypeParser(oid: number, format?: unknown) {
+      if (format === undefined || format === "text") {
+        if (oid === UUID_OID) return parseUuid;
+        if (oid === UUID_ARRAY_OID) {
+          const parseArray = base.getTypeParser(oid, format);
+          return (value: string) =>
+            (parseArray(value) as (string | null)[]).map((item) =>
+              item === null ? null : parseUuid(item)
+            );
+        }
+      }
+      return base.getTypeParser(oid, format);
+    },
+  };
+}
+
+/**
+ * Convert the TNID strings in a query's parameter values to their UUID form,
+ * for binding to `uuid` parameters. Arrays are converted element-wise, for
+ * `uuid[]` parameters. node-postgres doesn't know parameter types, so every
+ * valid TNID string is converted: don't use this for queries that store TNID
+ * strings in text columns.
+ *
+ * @example
+ * ```typescript
+ * await client.query(
+ *   "INSERT INTO users (id, name) VALUES ($1, $2)",
+ *   tnidParams([UserId.new_v0(), "Alice"]),
+ * );
+ * ```
+ */
+export function tnidParams(values: readonly unknown[]): unknown[] {
+  return values.map(tnidParam);
+}
+
+/** Convert a TNID string, or the TNID strings in an array, to UUIDs. */
+function tnidParam(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(tnidParam);
+  return isTnidString(value) ? encodeUuid(value) : value;
+}
@@ -0,0 +1,92 @@
+/**
+ * postgres.js (`postgres`) integration.
+ */
+
+import type { DynamicTnid } from "@tnid/core";
+import {
+  decodeUuid,
+  encodeUuid,
+  type TnidColumns,
+  type TnidDecodeOptions,
+  UUID_OID,
+} from "./codec.ts";
+
+/** A postgres.js custom type, as passed in the `types` option. */
+export interface PostgresJsType<T> {
+  to: number;
+  from: number[];
+  serialize: (value: unknown) => string;
+  parse: (value: string) => T;
+}
+
+/** The `value` transform of the postgres.js `transform` option. */
+export interface PostgresJsTransform {
+  value: {
+    from: (value: unknown, column: { name: string }) => unknown;
+  };
+}
+
+/**
+ * A postgres.js custom type for `uuid` that decodes columns to `DynamicTnid`s
+ * and serializes TNID strings bound to `uuid` parameters as UUIDs. Since
+ * postgres.js prepares statements, parameters of other types (e.g. `text`)
+ * are left alone. `uuid[]` columns and parameters are handled too.
+ *
+ * @example
+ * ```typescript
+ * import postgres from "postgres";
+ *
+ * const sql = postgres({ types: { tnid: tnidPostgresType() } });
+ *
+ * await sql`INSERT INTO users (id) VALUES (${UserId.new_v0()})`;
+ * const [user] = await sql`SELECT id FROM users`;
+ * user.id; // "user.Br2flcNDfF6LYICnT"
+ * ```
+ */
+export function tnidPostgresType(
+  options?: TnidDecodeOptions & { nonTnid?: "throw" },
+): PostgresJsType<DynamicTnid>;
+export function tnidPostgresType(
+  options: TnidDecodeOptions,
+): PostgresJsType<DynamicTnid | string>;
+export function tnidPostgresType(
+  options: TnidDecodeOptions = {},
+): PostgresJsType<DynamicTnid | string> {
+  return {
+    to: UUID_OID,
+    from: [UUID_OID],
+    serialize: encodeUuid,
+    parse: (value) => decodeUuid(value, options),
+  };
+}
+
+/**
+ * A postgres.js `transform` that parses the given columns with their
+ * NamedTnids, validating the name. Combine with `tnidPostgresType`, or use
+ * alone to decode only these columns.
+ *
+ * @example
+ * ```typescript
+ * const sql = postgres({
+ *   types: { tnid: tnidPostgresType() },
+ *   transform: tnidPostgresTransform({ author_id: UserId }),
+ * });
+ * ```
+ */
+export function tnidPostgresTransform(
+  columns: TnidColumns,
+): PostgresJsTransform {
+  return {
+    value: {
+      from(value, column) {
+        const tnid = Object.hasOwn(columns, column.name)
+          ? columns[column.name]
+          : undefined;
+        if (tnid === undefined || value === null || value === undefined) {
+          return value;
+        }
+        return tnid.parse(String(value));
+      },
+    },
+  };
+}
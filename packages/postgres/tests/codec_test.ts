@@ -0,0 +1,153 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { DynamicTnid, Tnid, TnidParseError } from "@tnid/core";
+import {
+  decodeTnidColumns,
+  decodeUuid,
+  encodeUuid,
+  tnidParams,
+  tnidPgTypes,
+  tnidPostgresTransform,
+  tnidPostgresType,
+  UUID_ARRAY_OID,
+  UUID_OID,
+} from "../src/index.ts";
+
+const UserId = Tnid("user");
+const PostId = Tnid("post");
+const RANDOM_UUID = "550e8400-e29b-41d4-a716-446655440000";
+
+// ============================================================================
+// decodeUuid / encodeUuid
+// ============================================================================
+
+Deno.test("codec: decodeUuid converts TNID UUIDs to TNID strings", () => {
+  const id = UserId.new_v0();
+
+  assertEquals(decodeUuid(UserId.toUuidString(id)), id);
+  assertEquals(decodeUuid(UserId.toUuidString(id, "upper")), id);
+});
+
+Deno.test("codec: decodeUuid rejects or keeps non-TNID UUIDs", () => {
+  assertThrows(() => decodeUuid(RANDOM_UUID), TnidParseError);
+  const kept: DynamicTnid | string = decodeUuid(RANDOM_UUID, {
+    nonTnid: "keep",
+  });
+  assertEquals(kept, RANDOM_UUID);
+  const strict: DynamicTnid = decodeUuid(UserId.toUuidString(UserId.new_v0()));
+  assertEquals(DynamicTnid.getName(strict), "user");
+});
+
+Deno.test("codec: encodeUuid converts TNID strings only", () => {
+  const id = UserId.new_v1();
+
+  assertEquals(encodeUuid(id), UserId.toUuidString(id));
+  assertEquals(encodeUuid(RANDOM_UUID), RANDOM_UUID);
+  assertThrows(() => encodeUuid("user.!!!"), TnidParseError);
+});
+
+// ============================================================================
+// decodeTnidColumns
+// ============================================================================
+
+Deno.test("codec: decodeTnidColumns parses columns with their NamedTnid", () => {
+  const postId = PostId.new_v0();
+  const authorId = UserId.new_v0();
+
+  const row = decodeTnidColumns(
+    {
+      id: PostId.toUuidString(postId),
+      author_id: authorId as string,
+      reviewer_id: null as string | null,
+      title: "Hello",
+    },
+    { id: PostId, author_id: UserId, reviewer_id: UserId },
+  );
+
+  assertEquals(row, {
+    id: postId,
+    author_id: authorId,
+    reviewer_id: null,
+    title: "Hello",
+  });
+  const _author: typeof authorId = row.author_id;
+  const _reviewer: typeof authorId | null = row.reviewer_id;
+
+  // Untyped rows (as from node-postgres) decode to non-null columns
+  const untyped: Record<string, unknown> = { author_id: authorId };
+  const _untyped: typeof authorId =
+    decodeTnidColumns(untyped, { author_id: UserId }).author_id;
+});
+
+Deno.test("codec: decodeTnidColumns validates names", () => {
+  assertThrows(
+    () => decodeTnidColumns({ id: PostId.new_v0() }, { id: UserId }),
+    TnidParseError,
+    "name mismatch",
+  );
+});
+
+// ============================================================================
+// Driver adapters (no database)
+// ============================================================================
+
+Deno.test("pg: tnidPgTypes overrides uuid and delegates the rest", () => {
+  const base = {
+    getTypeParser: (oid: number) =>
+      oid === UUID_ARRAY_OID
+        ? (s: string) => s.slice(1, -1).split(",")
+        : (s: string) => `base:${oid}:${s}`,
+  };
+  const types = tnidPgTypes(base);
+  const a = UserId.new_v0();
+  const b = UserId.new_v1();
+
+  assertEquals(
+    types.getTypeParser(UUID_OID, "text")(UserId.toUuidString(a)),
+    a,
+  );
+  assertEquals(
+    types.getTypeParser(UUID_ARRAY_OID)(
+      `{${UserId.toUuidString(a)},${UserId.toUuidString(b)}}`,
+    ),
+    [a, b],
+  );
+  assertEquals(types.getTypeParser(25, "text")("x"), "base:25:x");
+});
+
+Deno.test("pg: tnidParams converts TNID strings only", () => {
+  const id = UserId.new_v0();
+  const bytes = new Uint8Array(1);
+
+  assertEquals(tnidParams([id, "Alice", 3, null, bytes, RANDOM_UUID, [id]]), [
+    UserId.toUuidString(id),
+    "Alice",
+    3,
+    null,
+    bytes,
+    RANDOM_UUID,
+    [UserId.toUuidString(id)],
+  ]);
+});
+
+Deno.test("postgres.js: custom type round-trips TNIDs", () => {
+  const type = tnidPostgresType();
+  const id = PostId.new_v1();
+
+  assertEquals(type.to, UUID_OID);
+  assertEquals(type.from, [UUID_OID]);
+  assertEquals(type.parse(type.serialize(id)), id);
+});
+
+Deno.test("postgres.js: transform only touches configured columns", () => {
+  const { value } = tnidPostgresTransform({ author_id: UserId });
+  const id = UserId.new_v0();
+
+  assertEquals(value.from(UserId.toUuidString(id), { name: "author_id" }), id);
+  assertEquals(value.from(null, { name: "author_id" }), null);
+  assertEquals(value.from("x", { name: "title" }), "x");
+  assertEquals(value.from("x", { name: "toString" }), "x");
+  assertThrows(
+    () => value.from(DynamicTnid.newV0("post"), { name: "author_id" }),
+    TnidParseError,
+  );
+});
@@ -0,0 +1,183 @@
+import { assertEquals, assertRejects } from "@std/assert";
+// @ts-types="@types/pg"
+import pg from "pg";
+import postgres from "postgres";
+import { type DynamicTnid, Tnid } from "@tnid/core";
+import {
+  decodeTnidColumns,
+  tnidParams,
+  tnidPgTypes,
+  tnidPostgresTransform,
+  tnidPostgresType,
+} from "../src/index.ts";
+import {
+  startTestServer,
+  type TestServer,
+} from "../../../test_support/pglite_server.ts";
+
+const UserId = Tnid("user");
+const PostId = Tnid("post");
+
+/** Run `fn` against a fresh PGlite server, closing it afterwards. */
+async function withServer(fn: (server: TestServer) => Promise<void>) {
+  const server = await startTestServer();
+  try {
+    await fn(server);
+  } finally {
+    await server.close();
+  }
+}
+
+// ============================================================================
+// node-postgres
+// ============================================================================
+
+Deno.test("pg: round-trips TNIDs through uuid columns", async () => {
+  await withServer(async ({ host, port }) => {
+    const client = new pg.Client({
+      host,
+      port,
+      user: "postgres",
+      database: "postgres",
+      types: tnidPgTypes(pg.types),
+    });
+    await client.connect();
+    try {
+      const userId = UserId.new_v0();
+      const postId = PostId.new_v1();
+      const editors = [UserId.new_v1(), UserId.new_v0()];
+
+      await client.query(
+        "INSERT INTO users (id, name) VALUES ($1, $2)",
+        tnidParams([userId, "Alice"]),
+      );
+      await client.query(
+        "INSERT INTO posts (id, author_id, editor_ids, title) VALUES ($1, $2, $3, $4)",
+        tnidParams([postId, userId, editors, "Hi"]),
+      );
+
+      const { rows } = await client.query(
+        "SELECT id, author_id, editor_ids, title, id::text AS raw FROM posts",
+      );
+      assertEquals(rows, [{
+        id: postId,
+        author_id: userId,
+        editor_ids: editors,
+        title: "Hi",
+        raw: PostId.toUuidString(postId),
+      }]);
+
+      const post = decodeTnidColumns(rows[0], {
+        id: PostId,
+        author_id: UserId,
+      });
+      assertEquals(PostId.variant(post.id), "v1");
+      assertEquals(UserId.timestamp(post.author_id), UserId.timestamp(userId));
+    } finally {
+      await client.end();
+    }
+  });
+});
+
+Deno.test("pg: non-TNID uuids throw unless kept", async () => {
+  await withServer(async ({ host, port }) => {
+    const config = { host, port, user: "postgres", database: "postgres" };
+    const query = "SELECT '550e8400-e29b-41d4-a716-446655440000'::uuid AS id";
+
+    const strict = new pg.Client({ ...config, types: tnidPgTypes(pg.types) });
+    await strict.connect();
+    try {
+      await assertRejects(() => strict.query(query), Error, "UUIDv8");
+    } finally {
+      await strict.end();
+    }
+
+    const lenient = new pg.Client({
+      ...config,
+      types: tnidPgTypes(pg.types, { nonTnid: "keep" }),
+    });
+    await lenient.connect();
+    try {
+      const { rows } = await lenient.query(query);
+      assertEquals(rows[0].id, "550e8400-e29b-41d4-a716-446655440000");
+    } finally {
+      await lenient.end();
+    }
+  });
+});
+
+// ============================================================================
+// postgres.js
+// ============================================================================
+
+Deno.test("postgres.js: round-trips TNIDs through uuid columns", async () => {
+  await withServer(async ({ host, port }) => {
+    const sql = postgres({
+      host,
+      port,
+      user: "postgres",
+      database: "postgres",
+      max: 1,
+      onnotice: () => {},
+      types: { tnid: tnidPostgresType() },
+    });
+    try {
+      const userId = UserId.new_v0();
+      const postId = PostId.new_v0();
+
+      // TNID strings are only converted where Postgres expects a uuid
+      await sql`INSERT INTO users (id, name) VALUES (${userId}, ${userId})`;
+      await sql`
+        INSERT INTO posts (id, author_id, title)
+        VALUES (${postId}, ${userId}, ${"Hi"})
+      `;
+
+      const users = await sql`SELECT id, name FROM users`;
+      assertEquals([...users], [{ id: userId, name: userId }]);
+
+      const posts = await sql<{ id: DynamicTnid; author_id: DynamicTnid }[]>`
+        SELECT p.id, p.author_id FROM posts p
+        JOIN users u ON u.id = p.author_id
+        WHERE p.author_id = ${userId}
+      `;
+      assertEquals([...posts], [{ id: postId, author_id: userId }]);
+    } finally {
+      await sql.end();
+    }
+  });
+});
+
+Deno.test("postgres.js: transform validates configured columns", async () => {
+  await withServer(async ({ host, port }) => {
+    const sql = postgres({
+      host,
+      port,
+      user: "postgres",
+      database: "postgres",
+      max: 1,
+      onnotice: () => {},
+      transform: tnidPostgresTransform({ id: UserId, author_id: UserId }),
+    });
+    try {
+      const userId = UserId.new_v1();
+      const postId = PostId.new_v1();
+      const uuid = UserId.toUuidString(userId);
+
+      await sql`INSERT INTO users (id, name) VALUES (${uuid}, 'Bob')`;
+      const [user] = await sql`SELECT id FROM users`;
+      assertEquals(user.id, userId);
+
+      await sql`
+        INSERT INTO posts (id, author_id, title)
+        VALUES (${PostId.toUuidString(postId)}, ${uuid}, 'Hi')
+      `;
+      await assertRejects(
+        () => sql`SELECT id FROM posts`,
+        Error,
+        'expected "user", got "post"',
+      );
+    } finally {
+      await sql.end();
+    }
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Prisma client extension that stores TNIDs in `uuid` fields.
+ */
+
+import type { NamedTnid, TnidType } from "@tnid/core";
+
+/**
+ * NamedTnids to convert fields with, keyed by model name (as on the client,
+ * e.g. `user`), then field name.
+ *
+ * @example
+ * ```typescript
+ * const models: TnidFieldMap = {
+ *   user: { id: UserId },
+ *   post: { id: PostId, authorId: UserId },
+ * };
+ * ```
+ */
+export type TnidFieldMap = Record<string, Record<string, NamedTnid<string>>>;
+
+/** A computed result field that decodes `Field` with `T`. */
+export interface TnidResultField<
+  Field extends string,
+  T extends NamedTnid<string>,
+> {
+  needs: { [K in Field]: true };
+  compute(data: { [K in Field]: string | null }): TnidType<T>;
+}
+
+/** The parameters Prisma passes to a `$allOperations` query hook. */
+export interface TnidQueryHookParams {
+  model?: string;
+  operation: string;
+  args: unknown;
+  query(args: unknown): Promise<unknown>;
+}
+
+/** The Prisma client extension returned by `tnidExtension`. */
+export interface TnidPrismaExtension<Models extends TnidFieldMap> {
+  name: "tnid";
+  result: {
+    [M in keyof Models]: {
+      [F in keyof Models[M] & string]: TnidResultField<F, Models[M][F]>;
+    };
+  };
+  query: {
+    $allModels: {
+      $allOperations(params: TnidQueryHookParams): Promise<unknown>;
+    };
+  };
+}
+
+/** Query arguments that hold field values. */
+const VALUE_ARGS = ["where", "data", "create", "update", "cursor"];
+/** Where keys that nest more conditions on the same model. */
+const LOGICAL_KEYS = ["AND", "OR", "NOT"];
+/** Filter and update operation keys that hold field values. */
+const OPERATION_KEYS = [
+  "equals",
+  "in",
+  "notIn",
+  "not",
+  "lt",
+  "lte",
+  "gt",
+  "gte",
+  "set",
+];
+
+/** Whether `value` is an object, but not an array or null. */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Encode a field value, filter or list of values as UUIDs. */
+function encodeValue(tnid: NamedTnid<string>, value: unknown): unknown {
+  if (typeof value === "string") return tnid.toUuidString(tnid.parse(value));
+  if (Array.isArray(value)) return value.map((v) => encodeValue(tnid, v));
+  if (!isPlainObject(value)) return value;
+
+  const encoded = { ...value };
+  for (const key of OPERATION_KEYS) {
+    if (Object.hasOwn(value, key)) {
+      encoded[key] = encodeValue(tnid, value[key]);
+    }
+  }
+  return encoded;
+}
+
+/** Encode the mapped fields of a where, data or cursor object. */
+function encodeFields(
+  fields: Record<string, NamedTnid<string>>,
+  value: unknown,
+): unknown {
+  if (Array.isArray(value)) return value.map((v) => encodeFields(fields, v));
+  if (!isPlainObject(value)) return value;
+
+  const encoded = { ...value };
+  for (const [key, v] of Object.entries(value)) {
+    if (Object.hasOwn(fields, key)) {
+      encoded[key] = encodeValue(fields[key], v);
+    } else if (LOGICAL_KEYS.includes(key)) {
+      encoded[key] = encodeFields(fields, v);
+    }
+  }
+  return encoded;
+}
+
+/** Model name as used for client properties: `UserProfile` -> `userProfile`. */
+function clientModelName(model: string): string {
+  return model.charAt(0).toLowerCase() + model.slice(1);
+}
+
+/**
+ * A Prisma client extension that converts the fields in `models` between
+ * TNIDs and UUIDs: query arguments are sent as UUIDs, and results are
+ * returned as TNID strings. Declare the fields as `String @db.Uuid`.
+ *
+ * Arguments are converted in `where` (including `AND` / `OR` / `NOT` and
+ * filters such as `in`), `data`, `create`, `update` and `cursor` of the
+ * queried model. Nested relation arguments are left alone.
+ *
+ * Nullable fields decode to `null` at runtime, although the computed type is
+ * the TNID type.
+ *
+ * @throws TnidParseError from queries, if an argument or result value of a
+ * mapped field is not a TNID of its NamedTnid
+ *
+ * @example
+ * ```typescript
+ * import { PrismaClient } from "@prisma/client";
+ *
+ * const prisma = new PrismaClient().$extends(tnidExtension({
+ *   user: { id: UserId },
+ *   post: { id: PostId, authorId: UserId },
+ * }));
+ *
+ * const posts = await prisma.post.findMany({ where: { authorId: userId } });
+ * posts[0].id; // PostId
+ * ```
+ */
+export function tnidExtension<Models extends TnidFieldMap>(
+  models: Models,
+): TnidPrismaExtension<Models> {
+  const fieldsByModel = new Map(
+    Object.entries(models).map(([model, fields]) => [
+      clientModelName(model),
+      fields,
+    ]),
+  );
+
+  const result: Record<string, Record<string, unknown>> = {};
+  for (const [model, fields] of Object.entries(models)) {
+    result[model] = {};
+    for (const [field, tnid] of Object.entries(fields)) {
+      result[model][field] = {
+        needs: { [field]: true },
+        compute(data: Record<string, string | null>) {
+          const value = data[field];
+          return value === null || value === undefined
+            ? value
+            : tnid.parse(value);
+        },
+      };
+    }
+  }
+
+  return {
+    name: "tnid",
+    result: result as TnidPrismaExtension<Models>["result"],
+    query: {
+      $allModels: {
+        $allOperations({ model, args, query }) {
+          const fields = model === undefined
+            ? undefined
+            : fieldsByModel.get(clientModelName(model));
+          if (fields === undefined || !isPlainObject(args)) return query(args);
+
+          const encoded = { ...args };
+          for (const key of VALUE_ARGS) {
+            if (Object.hasOwn(args, key)) {
+              encoded[key] = encodeFields(fields, args[key]);
+            }
+          }
+          return query(encoded);
+        },
+      },
+    },
+  };
+}
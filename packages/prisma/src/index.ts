@@ -0,0 +1,27 @@
+/**
+ * @tnid/prisma - Store TNIDs in `uuid` fields with Prisma
+ *
+ * A Prisma client extension that sends TNID arguments as UUIDs and returns
+ * `uuid` fields as TNID strings, driven by a map of model fields to
+ * NamedTnids.
+ *
+ * @example
+ * ```typescript
+ * import { PrismaClient } from "@prisma/client";
+ * import { tnidExtension } from "@tnid/prisma";
+ *
+ * const prisma = new PrismaClient().$extends(
+ *   tnidExtension({ user: { id: UserId } }),
+ * );
+ * ```
+ *
+ * @module
+ */
+
+export {
+  tnidExtension,
+  type TnidFieldMap,
+  type TnidPrismaExtension,
+  type TnidQueryHookParams,
+  type TnidResultField,
+} from "./extension.ts";
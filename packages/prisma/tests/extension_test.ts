@@ -0,0 +1,156 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { Prisma } from "@prisma/client/extension";
+import { Tnid, TnidParseError, type TnidType } from "@tnid/core";
+import { tnidExtension } from "../src/index.ts";
+
+const UserId = Tnid("user");
+type UserId = TnidType<typeof UserId>;
+const PostId = Tnid("post");
+type PostId = TnidType<typeof PostId>;
+
+const extension = tnidExtension({
+  user: { id: UserId },
+  post: { id: PostId, authorId: UserId },
+});
+
+/** Run the query hook for `model`, returning the args passed to `query`. */
+async function hookArgs(model: string | undefined, args: unknown) {
+  let passed: unknown;
+  await extension.query.$allModels.$allOperations({
+    model,
+    operation: "findMany",
+    args,
+    query: (a) => {
+      passed = a;
+      return Promise.resolve([]);
+    },
+  });
+  return passed;
+}
+
+// ============================================================================
+// Results
+// ============================================================================
+
+Deno.test("result: computed fields decode UUIDs to TNIDs", () => {
+  const user = UserId.new_v0();
+  const { id, authorId } = extension.result.post;
+
+  assertEquals(authorId.needs, { authorId: true });
+  assertEquals(
+    authorId.compute({ authorId: UserId.toUuidString(user) }),
+    user,
+  );
+  assertEquals(authorId.compute({ authorId: null }), null);
+  assertThrows(
+    () => id.compute({ id: UserId.toUuidString(user) }),
+    TnidParseError,
+    'expected "post", got "user"',
+  );
+});
+
+// ============================================================================
+// Query arguments
+// ============================================================================
+
+Deno.test("query: encodes where, data and cursor fields", async () => {
+  const user = UserId.new_v0();
+  const post = PostId.new_v1();
+  const userUuid = UserId.toUuidString(user);
+  const postUuid = PostId.toUuidString(post);
+
+  assertEquals(
+    await hookArgs("Post", {
+      where: {
+        authorId: user,
+        OR: [{ id: { in: [post] } }, { NOT: { id: { not: post } } }],
+        title: "user.Br2flcNDfF6LYICnT",
+      },
+      cursor: { id: post },
+      select: { id: true },
+    }),
+    {
+      where: {
+        authorId: userUuid,
+        OR: [{ id: { in: [postUuid] } }, { NOT: { id: { not: postUuid } } }],
+        title: "user.Br2flcNDfF6LYICnT",
+      },
+      cursor: { id: postUuid },
+      select: { id: true },
+    },
+  );
+
+  assertEquals(
+    await hookArgs("Post", {
+      data: [{ id: post, authorId: user }],
+    }),
+    { data: [{ id: postUuid, authorId: userUuid }] },
+  );
+
+  assertEquals(
+    await hookArgs("Post", {
+      where: { id: post },
+      create: { id: post, authorId: user },
+      update: { authorId: { set: null } },
+    }),
+    {
+      where: { id: postUuid },
+      create: { id: postUuid, authorId: userUuid },
+      update: { authorId: { set: null } },
+    },
+  );
+});
+
+Deno.test("query: leaves unmapped models and raw queries alone", async () => {
+  const args = { where: { id: "cmnt.Br2flcNDfF6LYICnT" } };
+  assertEquals(await hookArgs("Comment", args), args);
+  assertEquals(await hookArgs(undefined, ["SELECT 1"]), ["SELECT 1"]);
+});
+
+Deno.test("query: rejects TNIDs of the wrong name", async () => {
+  await assertRejects(
+    () => hookArgs("User", { where: { id: PostId.new_v0() } }),
+    TnidParseError,
+    'expected "user", got "post"',
+  );
+});
+
+// ============================================================================
+// COMPILE-TIME TESTS
+// ============================================================================
+
+Deno.test("compile: computed fields are typed by their NamedTnid", () => {
+  const uuid = UserId.toUuidString(UserId.new_v0());
+  const _user: UserId = extension.result.user.id.compute({ id: uuid });
+  const _author: UserId = extension.result.post.authorId.compute({
+    authorId: uuid,
+  });
+
+  if (false as boolean) {
+    // @ts-expect-error: a PostId is not a UserId
+    const _wrong: UserId = extension.result.post.id.compute({ id: uuid });
+    // @ts-expect-error: "comment" is not mapped
+    extension.result.comment;
+  }
+});
+
+// Prisma's generated client isn't available here, so these check against
+// `Prisma.defineExtension`, which takes the same arguments as `$extends`
+Deno.test("compile: Prisma accepts the extension", () => {
+  const _direct = Prisma.defineExtension(extension);
+  const _extends = Prisma.defineExtension((client) =>
+    client.$extends(extension)
+  );
+
+  if (false as boolean) {
+    // The checks above only mean something if Prisma's types are strict
+    Prisma.defineExtension({
+      // @ts-expect-error: computed fields need a compute function
+      result: { user: { id: { needs: { id: true }, compute: 5 } } },
+    });
+    Prisma.defineExtension({
+      // @ts-expect-error: query hooks return promises
+      query: { $allModels: { $allOperations: () => 1 } },
+    });
+  }
+});
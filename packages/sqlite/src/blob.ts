@@ -0,0 +1,39 @@
+/**
+ * Conversion between TNIDs and the 16-byte BLOBs stored in SQLite columns.
+ */
+
+import { DynamicTnid, type NamedTnid, type TnidType } from "@tnid/core";
+
+/** A BLOB value as returned by SQLite drivers. */
+export type TnidBlob = Uint8Array | ArrayBuffer;
+
+/**
+ * Encode a TNID (in TNID or UUID string form) as its 16-byte BLOB: the UUID
+ * bytes, big-endian. Comparing the BLOBs (SQLite compares BLOBs with
+ * `memcmp`) orders V0 TNIDs of one name by creation time, the same as
+ * comparing their TNID strings.
+ * @throws TnidParseError if the value is not a valid TNID
+ */
+export function encodeTnidBlob(id: string): Uint8Array {
+  return DynamicTnid.toBytes(DynamicTnid.parse(id));
+}
+
+/**
+ * Decode a 16-byte BLOB to a TNID, validated and typed by `tnid` if given.
+ * Accepts any `Uint8Array` (including Node `Buffer`s) or an `ArrayBuffer`.
+ * @throws TnidParseError if the bytes are not a valid TNID (with `tnid`'s name)
+ */
+export function decodeTnidBlob(blob: TnidBlob): DynamicTnid;
+export function decodeTnidBlob<T extends NamedTnid<string>>(
+  blob: TnidBlob,
+  tnid: T,
+): TnidType<T>;
+export function decodeTnidBlob(
+  blob: TnidBlob,
+  tnid?: NamedTnid<string>,
+): DynamicTnid {
+  const bytes = blob instanceof Uint8Array ? blob : new Uint8Array(blob);
+  return tnid === undefined
+    ? DynamicTnid.fromBytes(bytes)
+    : tnid.fromBytes(bytes);
+}
@@ -0,0 +1,83 @@
+/**
+ * SQL functions for ad-hoc queries over TNID BLOB columns.
+ */
+
+import { DynamicTnid } from "@tnid/core";
+import { decodeTnidBlob, encodeTnidBlob, type TnidBlob } from "./blob.ts";
+
+/** A SQL function taking one argument; `NULL` arguments return `NULL`. */
+export type TnidSqlFunction = (value: unknown) => unknown;
+
+/**
+ * The TNID SQL functions, keyed by SQL name:
+ *
+ * - `tnid_to_string(blob)`: the TNID string of a BLOB
+ * - `tnid_from_string(text)`: the BLOB of a TNID (or UUID) string
+ * - `tnid_timestamp(blob)`: creation time of a V0 TNID in milliseconds since
+ *   the Unix epoch, `NULL` for other variants
+ *
+ * Invalid arguments throw a `TnidParseError` (or a `TypeError` for arguments
+ * of the wrong SQL type), which fails the statement.
+ * Register these with drivers whose API `registerTnidFunctions` doesn't
+ * cover, e.g. sql.js' `db.create_function(name, fn)`.
+ */
+export const tnidSqlFunctions: Readonly<Record<string, TnidSqlFunction>> = {
+  tnid_to_string: nullable((blob) => decodeTnidBlob(blobArg(blob))),
+  tnid_from_string: nullable((text) => encodeTnidBlob(textArg(text))),
+  tnid_timestamp: nullable((blob) => {
+    const id = decodeTnidBlob(blobArg(blob));
+    return DynamicTnid.getVariant(id) === "v0"
+      ? Number(DynamicTnid.getTimestampMillis(id))
+      : null;
+  }),
+};
+
+/** Return `NULL` for `NULL` arguments, else apply `fn`. */
+function nullable(fn: TnidSqlFunction): TnidSqlFunction {
+  return (value) => value === null || value === undefined ? null : fn(value);
+}
+
+/** Narrow a SQL argument to a BLOB. */
+function blobArg(value: unknown): TnidBlob {
+  if (value instanceof Uint8Array || value instanceof ArrayBuffer) return value;
+  throw new TypeError(`Expected a TNID BLOB, got ${typeof value}`);
+}
+
+/** Narrow a SQL argument to TEXT. */
+function textArg(value: unknown): string {
+  if (typeof value === "string") return value;
+  throw new TypeError(`Expected a TNID string, got ${typeof value}`);
+}
+
+/**
+ * The part of a database connection used to register functions, shared by
+ * better-sqlite3's `Database` and `node:sqlite`'s `DatabaseSync`.
+ */
+export interface SqliteFunctionHost {
+  function(
+    name: string,
+    options: { deterministic?: boolean },
+    fn: (...args: unknown[]) => unknown,
+  ): unknown;
+}
+
+/**
+ * Register `tnid_to_string`, `tnid_from_string` and `tnid_timestamp` (see
+ * `tnidSqlFunctions`) on a connection.
+ *
+ * @example
+ * ```typescript
+ * import Database from "better-sqlite3";
+ *
+ * const db = new Database("app.db");
+ * registerTnidFunctions(db);
+ * db.prepare(
+ *   "SELECT tnid_to_string(id), tnid_timestamp(id) FROM users",
+ * ).all();
+ * ```
+ */
+export function registerTnidFunctions(db: SqliteFunctionHost): void {
+  for (const [name, fn] of Object.entries(tnidSqlFunctions)) {
+    db.function(name, { deterministic: true }, fn);
+  }
+}
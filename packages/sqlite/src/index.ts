@@ -0,0 +1,29 @@
+/**
+ * @tnid/sqlite - Store TNIDs as 16-byte SQLite BLOBs
+ *
+ * Codecs between TNIDs and the BLOBs stored in SQLite columns, which sort V0
+ * TNIDs by creation time, and SQL functions for ad-hoc queries over them.
+ * Works with any driver that reads and writes BLOBs as `Uint8Array`s.
+ *
+ * @example
+ * ```typescript
+ * import Database from "better-sqlite3";
+ * import { decodeTnidBlob, encodeTnidBlob } from "@tnid/sqlite";
+ *
+ * db.prepare("INSERT INTO users (id, name) VALUES (?, ?)")
+ *   .run(encodeTnidBlob(UserId.new_v0()), "Alice");
+ *
+ * const row = db.prepare("SELECT id FROM users").get();
+ * const id = decodeTnidBlob(row.id, UserId);
+ * ```
+ *
+ * @module
+ */
+
+export { decodeTnidBlob, encodeTnidBlob, type TnidBlob } from "./blob.ts";
+export {
+  registerTnidFunctions,
+  type SqliteFunctionHost,
+  type TnidSqlFunction,
+  tnidSqlFunctions,
+} from "./functions.ts";
@@ -0,0 +1,133 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { Tnid, TnidParseError, type TnidType } from "@tnid/core";
+import { DatabaseSync } from "node:sqlite";
+import { decodeTnidBlob, encodeTnidBlob } from "../src/index.ts";
+
+const UserId = Tnid("user");
+type UserId = TnidType<typeof UserId>;
+const PostId = Tnid("post");
+
+/** Compare bytes like SQLite compares BLOBs (memcmp, then length). */
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+/** V0 TNIDs across a wide range of times, several per millisecond. */
+function spreadV0(): UserId[] {
+  const ids: UserId[] = [];
+  for (let i = 0; i < 200; i++) {
+    const timestamp = BigInt(Math.floor(Math.random() * 2 ** 43));
+    for (const random of [0n, 1n, BigInt(i + 2) << 40n, (1n << 57n) - 1n]) {
+      ids.push(UserId.v0_from_parts(timestamp, random));
+    }
+  }
+  for (let i = 0; i < 200; i++) ids.push(UserId.new_v0());
+  return ids;
+}
+
+Deno.test("blob: encode produces the 16 UUID bytes", () => {
+  const id = UserId.new_v0();
+  const blob = encodeTnidBlob(id);
+
+  assertEquals(blob.length, 16);
+  assertEquals(blob, UserId.toBytes(id));
+  assertEquals(encodeTnidBlob(UserId.toUuidString(id)), blob);
+});
+
+Deno.test("blob: decode round-trips V0 and V1", () => {
+  for (const id of [UserId.new_v0(), UserId.new_v1()]) {
+    const blob = encodeTnidBlob(id);
+    assertEquals(decodeTnidBlob(blob), id);
+    assertEquals(decodeTnidBlob(blob, UserId), id);
+    assertEquals(decodeTnidBlob(blob.slice().buffer), id);
+  }
+});
+
+Deno.test("blob: decode validates length and name", () => {
+  const err = assertThrows(
+    () => decodeTnidBlob(new Uint8Array(15)),
+    TnidParseError,
+    "expected 16 bytes, got 15",
+  );
+  assertEquals(err.code, "BAD_LENGTH");
+
+  const post = encodeTnidBlob(PostId.new_v0());
+  assertEquals(
+    assertThrows(() => decodeTnidBlob(post, UserId), TnidParseError).code,
+    "NAME_MISMATCH",
+  );
+});
+
+Deno.test("blob: encode rejects invalid TNIDs", () => {
+  assertThrows(() => encodeTnidBlob("user.nope"), TnidParseError);
+  assertThrows(
+    () => encodeTnidBlob(crypto.randomUUID()),
+    TnidParseError,
+  );
+});
+
+Deno.test("blob: byte order matches TNID string and time order for V0", () => {
+  const ids = spreadV0();
+  const byString = [...ids].sort();
+  const byBytes = ids.map(encodeTnidBlob).sort(compareBytes).map((blob) =>
+    decodeTnidBlob(blob, UserId)
+  );
+
+  assertEquals(byBytes, byString);
+  for (let i = 1; i < byString.length; i++) {
+    const prev = UserId.timestampMillis(byString[i - 1]);
+    const next = UserId.timestampMillis(byString[i]);
+    assertEquals(prev <= next, true);
+  }
+});
+
+Deno.test("blob: SQLite orders BLOB columns like TNID strings for V0", () => {
+  const db = new DatabaseSync(":memory:");
+  try {
+    db.exec("CREATE TABLE users (id BLOB PRIMARY KEY, tnid TEXT NOT NULL)");
+    const insert = db.prepare("INSERT INTO users (id, tnid) VALUES (?, ?)");
+    for (const id of spreadV0()) insert.run(encodeTnidBlob(id), id);
+
+    const byBlob = db.prepare("SELECT id, tnid FROM users ORDER BY id").all();
+    const byText = db.prepare("SELECT tnid FROM users ORDER BY tnid").all();
+
+    assertEquals(
+      byBlob.map((row) => decodeTnidBlob(row.id as Uint8Array, UserId)),
+      byText.map((row) => row.tnid),
+    );
+    assertEquals(byBlob.map((row) => row.tnid), byText.map((row) => row.tnid));
+  } finally {
+    db.close();
+  }
+});
+
+Deno.test("blob: time range scans compare BLOBs with range bounds", () => {
+  const db = new DatabaseSync(":memory:");
+  try {
+    db.exec("CREATE TABLE users (id BLOB PRIMARY KEY)");
+    const insert = db.prepare("INSERT INTO users (id) VALUES (?)");
+    const ids = spreadV0();
+    for (const id of ids) insert.run(encodeTnidBlob(id));
+
+    const start = new Date(2 ** 42);
+    const end = new Date(2 ** 42 + 2 ** 40);
+    const { min, max } = UserId.rangeForInterval(start, end);
+    const rows = db.prepare(
+      "SELECT id FROM users WHERE id BETWEEN ? AND ? ORDER BY id",
+    ).all(encodeTnidBlob(min.tnid), encodeTnidBlob(max.tnid));
+
+    const expected = ids.filter((id) => {
+      const ms = Number(UserId.timestampMillis(id));
+      return ms >= start.getTime() && ms <= end.getTime();
+    }).sort();
+    assertEquals(
+      rows.map((row) => decodeTnidBlob(row.id as Uint8Array, UserId)),
+      expected,
+    );
+  } finally {
+    db.close();
+  }
+});
@@ -0,0 +1,103 @@
+import { assertEquals, assertInstanceOf, assertThrows } from "@std/assert";
+import { Tnid } from "@tnid/core";
+import { DatabaseSync } from "node:sqlite";
+import {
+  encodeTnidBlob,
+  registerTnidFunctions,
+  tnidSqlFunctions,
+} from "../src/index.ts";
+
+const UserId = Tnid("user");
+
+function openDb(): DatabaseSync {
+  const db = new DatabaseSync(":memory:");
+  registerTnidFunctions(db);
+  db.exec("CREATE TABLE users (id BLOB PRIMARY KEY, name TEXT NOT NULL)");
+  return db;
+}
+
+Deno.test("functions: tnid_to_string and tnid_from_string round-trip", () => {
+  const db = openDb();
+  try {
+    const id = UserId.new_v0();
+    db.prepare("INSERT INTO users (id, name) VALUES (tnid_from_string(?), ?)")
+      .run(id, "Alice");
+
+    const row = db.prepare(
+      "SELECT id, tnid_to_string(id) AS tnid FROM users WHERE id = tnid_from_string(?)",
+    ).get(id);
+
+    assertEquals(row?.tnid, id);
+    const stored = row?.id;
+    assertInstanceOf(stored, Uint8Array);
+    assertEquals(stored, encodeTnidBlob(id));
+  } finally {
+    db.close();
+  }
+});
+
+Deno.test("functions: tnid_timestamp returns V0 milliseconds", () => {
+  const db = openDb();
+  try {
+    const v0 = UserId.new_v0();
+    const v1 = UserId.new_v1();
+    const row = db.prepare(
+      "SELECT tnid_timestamp(?) AS v0, tnid_timestamp(?) AS v1",
+    ).get(encodeTnidBlob(v0), encodeTnidBlob(v1));
+
+    assertEquals(row?.v0, Number(UserId.timestampMillis(v0)));
+    assertEquals(row?.v1, null);
+  } finally {
+    db.close();
+  }
+});
+
+Deno.test("functions: NULL arguments return NULL", () => {
+  const db = openDb();
+  try {
+    const row = db.prepare(
+      "SELECT tnid_to_string(NULL) AS a, tnid_from_string(NULL) AS b, tnid_timestamp(NULL) AS c",
+    ).get();
+
+    assertEquals(row, { __proto__: null, a: null, b: null, c: null });
+  } finally {
+    db.close();
+  }
+});
+
+Deno.test("functions: invalid arguments fail the statement", () => {
+  const db = openDb();
+  try {
+    assertThrows(
+      () => db.prepare("SELECT tnid_from_string('user.nope')").get(),
+      Error,
+      "Invalid TNID",
+    );
+    assertThrows(
+      () => db.prepare("SELECT tnid_to_string(x'0102')").get(),
+      Error,
+      "expected 16 bytes",
+    );
+    assertThrows(
+      () => db.prepare("SELECT tnid_to_string('user.nope')").get(),
+      Error,
+      "Expected a TNID BLOB",
+    );
+    assertThrows(
+      () => db.prepare("SELECT tnid_from_string(42)").get(),
+      Error,
+      "Expected a TNID string",
+    );
+  } finally {
+    db.close();
+  }
+});
+
+Deno.test("functions: tnidSqlFunctions can be called directly", () => {
+  const id = UserId.new_v0();
+  const blob = tnidSqlFunctions.tnid_from_string(id);
+
+  assertEquals(blob, encodeTnidBlob(id));
+  assertEquals(tnidSqlFunctions.tnid_to_string(blob), id);
+  assertEquals(tnidSqlFunctions.tnid_to_string(null), null);
+});
@@ -27,6 +27,12 @@
 export type {
   Case,
   NamedTnid,
+  ParseResult,
+  StrictTnidValue,
+  TnidBound,
+  TnidRange,
+  TnidStrictType,
+  TnidString,
   TnidType,
   TnidValue,
   TnidVariant,
@@ -50,10 +56,12 @@ import initWasm, {
 import type {
   Case,
   NamedTnid,
+  StrictTnidValue,
   TnidValue,
   TnidVariant,
   ValidateName,
 } from "@tnid/core";
+import { Tnid as CoreTnid } from "@tnid/core";
 
 // =============================================================================
 // Initialization
@@ -145,35 +153,45 @@ function randomHex16(): string {
 export function Tnid<Name extends string>(
   name: ValidateName<Name>,
 ): NamedTnid<Name> {
+  // Methods without a WASM binding fall back to the @tnid/core implementation
+  const fallback = CoreTnid<Name>(name);
+
   return {
+    ...fallback,
+
     name: name as Name,
 
-    new_v0(): TnidValue<Name> {
+    new_v0(): StrictTnidValue<Name> {
       ensureInitialized();
       const timestamp = Date.now();
       const random = randomHex8();
-      return wasmNewV0(name, timestamp, random) as TnidValue<Name>;
+      return wasmNewV0(name, timestamp, random) as StrictTnidValue<Name>;
     },
 
-    new_v1(): TnidValue<Name> {
+    new_v1(): StrictTnidValue<Name> {
       ensureInitialized();
       const random = randomHex16();
-      return wasmNewV1(name, random) as TnidValue<Name>;
+      return wasmNewV1(name, random) as StrictTnidValue<Name>;
     },
 
-    v0_from_parts(timestampMs: bigint, randomBits: bigint): TnidValue<Name> {
+    v0_from_parts(
+      timestampMs: bigint,
+      randomBits: bigint,
+    ): StrictTnidValue<Name> {
       ensureInitialized();
       const randomHex = randomBits.toString(16).padStart(16, "0");
-      return wasmNewV0(name, Number(timestampMs), randomHex) as TnidValue<Name>;
+      return wasmNewV0(name, Number(timestampMs), randomHex) as StrictTnidValue<
+        Name
+      >;
     },
 
-    v1_from_parts(randomBits: bigint): TnidValue<Name> {
+    v1_from_parts(randomBits: bigint): StrictTnidValue<Name> {
       ensureInitialized();
       const randomHex = randomBits.toString(16).padStart(32, "0");
-      return wasmNewV1(name, randomHex) as TnidValue<Name>;
+      return wasmNewV1(name, randomHex) as StrictTnidValue<Name>;
     },
 
-    parse(s: string): TnidValue<Name> {
+    parse(s: string): StrictTnidValue<Name> {
       // Detect format: TNID strings contain '.', UUID strings contain '-' or are 32 hex chars
       if (s.includes(".")) {
         return this.parseTnidString(s);
@@ -182,7 +200,7 @@ export function Tnid<Name extends string>(
       }
     },
 
-    parseTnidString(s: string): TnidValue<Name> {
+    parseTnidString(s: string): StrictTnidValue<Name> {
       ensureInitialized();
       const parsed = wasmParse(s);
       const parsedName = wasmGetName(parsed);
@@ -191,10 +209,10 @@ export function Tnid<Name extends string>(
           `Name mismatch: expected '${name}', got '${parsedName}'`,
         );
       }
-      return parsed as TnidValue<Name>;
+      return parsed as StrictTnidValue<Name>;
     },
 
-    parseUuidString(uuid: string): TnidValue<Name> {
+    parseUuidString(uuid: string): StrictTnidValue<Name> {
       ensureInitialized();
       const parsed = wasmParseUuid(uuid);
       const parsedName = wasmGetName(parsed);
@@ -203,7 +221,7 @@ export function Tnid<Name extends string>(
           `Name mismatch: expected '${name}', got '${parsedName}'`,
         );
       }
-      return parsed as TnidValue<Name>;
+      return parsed as StrictTnidValue<Name>;
     },
 
     nameHex(): string {
@@ -280,11 +298,11 @@ export const DynamicTnid = {
   },
 
   /**
-   * Get the name of a TNID.
+   * Get the name of a TNID (the literal name type when `id` is typed).
    */
-  getName(id: DynamicTnid): string {
+  getName<Name extends string>(id: TnidValue<Name>): Name {
     ensureInitialized();
-    return wasmGetName(id);
+    return wasmGetName(id) as Name;
   },
 
   /**
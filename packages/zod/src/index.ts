@@ -0,0 +1,22 @@
+/**
+ * @tnid/zod - Zod schemas for TNIDs
+ *
+ * Validate TNIDs in Zod schemas, reporting parse failures as Zod issues and
+ * inferring branded `TnidValue` output types.
+ *
+ * @example
+ * ```typescript
+ * import { z } from "zod";
+ * import { Tnid } from "@tnid/core";
+ * import { zTnid } from "@tnid/zod";
+ *
+ * const UserId = Tnid("user");
+ *
+ * const Body = z.object({ author: zTnid(UserId), text: z.string() });
+ * const body = Body.parse(json); // body.author: TnidValue<"user">
+ * ```
+ *
+ * @module
+ */
+
+export { zDynamicTnid, zTnid, zTnidUuid } from "./schemas.ts";
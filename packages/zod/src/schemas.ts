@@ -0,0 +1,86 @@
+/**
+ * Zod schemas for parsing TNIDs.
+ *
+ * Each schema accepts a string, parses it with `@tnid/core`, and outputs the
+ * TNID string form. A `TnidParseError` becomes a `custom` Zod issue with the
+ * same message and its code in `params.tnidCode`.
+ */
+
+import { z } from "zod";
+import {
+  DynamicTnid,
+  type NamedTnid,
+  TnidParseError,
+  type TnidValue,
+} from "@tnid/core";
+
+/** Build a string schema that outputs the result of `parse`, or an issue. */
+function tnidSchema<T>(parse: (s: string) => T): z.ZodType<T, string> {
+  return z.string().transform((s, ctx) => {
+    try {
+      return parse(s);
+    } catch (e) {
+      if (!(e instanceof TnidParseError)) throw e;
+      ctx.addIssue({
+        code: "custom",
+        message: e.message,
+        input: s,
+        params: { tnidCode: e.code },
+      });
+      return z.NEVER;
+    }
+  });
+}
+
+/**
+ * Schema for a TNID string of the given NamedTnid (e.g.
+ * `"user.Br2flcNDfF6LYICnT"`). UUID strings are rejected; use `zTnidUuid`
+ * to accept them too.
+ *
+ * @example
+ * ```typescript
+ * const UserId = Tnid("user");
+ * const schema = zTnid(UserId);
+ *
+ * schema.parse("user.Br2flcNDfF6LYICnT"); // TnidValue<"user">
+ * schema.safeParse("post.Br2flcNDfF6LYICnT").error?.issues[0].message;
+ * // 'TNID name mismatch: expected "user", got "post"'
+ * ```
+ */
+export function zTnid<Name extends string>(
+  tnid: NamedTnid<Name>,
+): z.ZodType<TnidValue<Name>, string> {
+  return tnidSchema((s) => tnid.parseTnidString(s));
+}
+
+/**
+ * Schema for a TNID of the given NamedTnid in either TNID string or UUID hex
+ * format. The output is always normalized to the TNID string.
+ *
+ * @example
+ * ```typescript
+ * const schema = zTnidUuid(UserId);
+ *
+ * schema.parse("d6157337-0ebc-8686-83ab-4075a34cdcde"); // "user.Br2flcNDfF6LYICnT"
+ * schema.parse("user.Br2flcNDfF6LYICnT"); // "user.Br2flcNDfF6LYICnT"
+ * ```
+ */
+export function zTnidUuid<Name extends string>(
+  tnid: NamedTnid<Name>,
+): z.ZodType<TnidValue<Name>, string> {
+  return tnidSchema((s) => tnid.parse(s));
+}
+
+/**
+ * Schema for a TNID string with any valid name.
+ *
+ * @example
+ * ```typescript
+ * const schema = zDynamicTnid();
+ *
+ * schema.parse("post.EUBcUw4T9x3KNOll-"); // DynamicTnid
+ * ```
+ */
+export function zDynamicTnid(): z.ZodType<DynamicTnid, string> {
+  return tnidSchema((s) => DynamicTnid.parseTnidString(s));
+}
@@ -0,0 +1,123 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { z } from "zod";
+import { type DynamicTnid, Tnid, type TnidType } from "@tnid/core";
+import { zDynamicTnid, zTnid, zTnidUuid } from "../src/index.ts";
+
+const UserId = Tnid("user");
+type UserId = TnidType<typeof UserId>;
+const PostId = Tnid("post");
+
+// ============================================================================
+// zTnid
+// ============================================================================
+
+Deno.test("zTnid: accepts TNID strings of the NamedTnid", () => {
+  const id = UserId.new_v0();
+  const parsed: UserId = zTnid(UserId).parse(id);
+
+  assertEquals(parsed, id);
+});
+
+Deno.test("zTnid: rejects UUID strings", () => {
+  const result = zTnid(UserId).safeParse(UserId.toUuidString(UserId.new_v0()));
+
+  assertEquals(result.success, false);
+});
+
+Deno.test("zTnid: reports parse failures as Zod issues", () => {
+  const result = zTnid(UserId).safeParse(PostId.new_v0());
+
+  if (result.success) throw new Error("expected failure");
+  assertEquals(result.error.issues.length, 1);
+  const issue = result.error.issues[0];
+  assertEquals(issue.code, "custom");
+  assertEquals(
+    issue.message,
+    'TNID name mismatch: expected "user", got "post"',
+  );
+  assertEquals(
+    issue.code === "custom" ? issue.params?.tnidCode : undefined,
+    "NAME_MISMATCH",
+  );
+});
+
+Deno.test("zTnid: non-strings fail with Zod's own issue", () => {
+  const result = zTnid(UserId).safeParse(42);
+
+  if (result.success) throw new Error("expected failure");
+  assertEquals(result.error.issues[0].code, "invalid_type");
+});
+
+Deno.test("zTnid: issues carry the path inside objects", () => {
+  const Body = z.object({ author: zTnid(UserId), text: z.string() });
+
+  const ok = Body.parse({ author: "user.Br2flcNDfF6LYICnT", text: "hi" });
+  assertEquals(ok.author, "user.Br2flcNDfF6LYICnT");
+
+  const result = Body.safeParse({ author: "user.!!!", text: "hi" });
+  if (result.success) throw new Error("expected failure");
+  assertEquals(result.error.issues[0].path, ["author"]);
+  assertThrows(() => Body.parse({ author: "nope", text: "" }), z.ZodError);
+});
+
+// ============================================================================
+// zTnidUuid
+// ============================================================================
+
+Deno.test("zTnidUuid: normalizes UUID strings to TNID strings", () => {
+  const id = UserId.new_v1();
+  const schema = zTnidUuid(UserId);
+
+  assertEquals(schema.parse(UserId.toUuidString(id)), id);
+  assertEquals(schema.parse(UserId.toUuidString(id, "upper")), id);
+  assertEquals(schema.parse(id), id);
+});
+
+Deno.test("zTnidUuid: rejects UUIDs of other names", () => {
+  const result = zTnidUuid(UserId).safeParse(
+    PostId.toUuidString(PostId.new_v0()),
+  );
+
+  if (result.success) throw new Error("expected failure");
+  assertEquals(result.error.issues[0].message.includes("mismatch"), true);
+});
+
+// ============================================================================
+// zDynamicTnid
+// ============================================================================
+
+Deno.test("zDynamicTnid: accepts TNID strings of any name", () => {
+  const schema = zDynamicTnid();
+  const user = UserId.new_v0();
+  const post = PostId.new_v1();
+
+  const parsed: DynamicTnid = schema.parse(post);
+  assertEquals(parsed, post);
+  assertEquals(schema.parse(user), user);
+  assertEquals(schema.safeParse("User.Br2flcNDfF6LYICnT").success, false);
+});
+
+// ============================================================================
+// Type inference
+// ============================================================================
+
+Deno.test("compile: output types are branded", () => {
+  const Body = z.object({ author: zTnid(UserId), target: zDynamicTnid() });
+  type Body = z.infer<typeof Body>;
+  type Input = z.input<typeof Body>;
+
+  const body: Body = Body.parse({
+    author: UserId.new_v0(),
+    target: PostId.new_v0(),
+  });
+  const author: UserId = body.author;
+  const input: Input = { author: "user.Br2flcNDfF6LYICnT", target: "x" };
+
+  if (false as boolean) {
+    // @ts-expect-error: a PostId is not a UserId
+    const _wrong: Body["author"] = PostId.new_v0();
+  }
+
+  assertEquals(typeof author, "string");
+  assertEquals(typeof input.target, "string");
+});
@@ -17,15 +17,20 @@ const LICENSE = rootConfig.license;
 interface PackageConfig {
   name: string;
   dir: string;
-  entryPoints: string | { name: string; path: string }[];
+  entryPoints: string | { kind?: "bin"; name: string; path: string }[];
   description: string;
   readme: string;
   dependencies?: Record<string, string>;
   mappings?: Record<string, { name: string; version: string; subPath?: string; peerDependency?: boolean }>;
+  // npm packages imported via npm: specifiers that must be shared with the app
+  // (e.g. zod), moved from dependencies to peerDependencies after the build
+  peerDependencies?: Record<string, string>;
   // Skip npm install for packages with local dependencies not yet published
   skipNpmInstall?: boolean;
   // Import map for resolving package imports
   importMap?: string;
+  // Provide the Deno namespace in Node (for the CLI)
+  denoShim?: boolean;
 }
 
 // Packages in build order (dependencies first)
@@ -36,6 +41,7 @@ const packages: PackageConfig[] = [
     entryPoints: [
       { name: ".", path: "./packages/core/src/index.ts" },
       { name: "./uuid", path: "./packages/core/src/uuid.ts" },
+      { name: "./testing", path: "./packages/core/src/testing.ts" },
     ],
     description:
       "Type-safe, named, unique identifiers (TNIDs) - UUID-compatible IDs with embedded type names",
@@ -65,6 +71,80 @@ const packages: PackageConfig[] = [
     importMap: "./packages/filter/deno.json",
     skipNpmInstall: true,
   },
+  {
+    name: "@tnid/cli",
+    dir: "cli",
+    entryPoints: [
+      { name: ".", path: "./packages/cli/src/index.ts" },
+      { kind: "bin", name: "tnid", path: "./packages/cli/src/main.ts" },
+    ],
+    description: "Command-line tool for TNIDs - inspect, generate, convert, encrypt and filter IDs",
+    readme: "./packages/cli/README.md",
+    importMap: "./packages/cli/deno.json",
+    skipNpmInstall: true,
+    denoShim: true,
+  },
+  {
+    name: "@tnid/drizzle",
+    dir: "drizzle",
+    entryPoints: [
+      { name: "./pg", path: "./packages/drizzle/src/pg.ts" },
+      { name: "./sqlite", path: "./packages/drizzle/src/sqlite.ts" },
+      { name: "./mysql", path: "./packages/drizzle/src/mysql.ts" },
+    ],
+    description: "Drizzle ORM column types for TNIDs - typed ID columns with generated defaults",
+    readme: "./packages/drizzle/README.md",
+    importMap: "./packages/drizzle/deno.json",
+    peerDependencies: { "drizzle-orm": "^0.45" },
+    skipNpmInstall: true,
+  },
+  {
+    name: "@tnid/kysely",
+    dir: "kysely",
+    entryPoints: "./packages/kysely/src/index.ts",
+    description: "Kysely plugin for TNIDs - store branded IDs in uuid columns",
+    readme: "./packages/kysely/README.md",
+    importMap: "./packages/kysely/deno.json",
+    peerDependencies: { kysely: "^0.29" },
+    skipNpmInstall: true,
+  },
+  {
+    name: "@tnid/postgres",
+    dir: "postgres",
+    entryPoints: "./packages/postgres/src/index.ts",
+    description: "Postgres codecs for TNIDs - store branded IDs in native uuid columns",
+    readme: "./packages/postgres/README.md",
+    importMap: "./packages/postgres/deno.json",
+    skipNpmInstall: true,
+  },
+  {
+    name: "@tnid/prisma",
+    dir: "prisma",
+    entryPoints: "./packages/prisma/src/index.ts",
+    description: "Prisma client extension for TNIDs - store branded IDs in uuid fields",
+    readme: "./packages/prisma/README.md",
+    importMap: "./packages/prisma/deno.json",
+    skipNpmInstall: true,
+  },
+  {
+    name: "@tnid/sqlite",
+    dir: "sqlite",
+    entryPoints: "./packages/sqlite/src/index.ts",
+    description: "SQLite BLOB codecs and SQL functions for TNIDs",
+    readme: "./packages/sqlite/README.md",
+    importMap: "./packages/sqlite/deno.json",
+    skipNpmInstall: true,
+  },
+  {
+    name: "@tnid/zod",
+    dir: "zod",
+    entryPoints: "./packages/zod/src/index.ts",
+    description: "Zod schemas for TNIDs - validate and parse branded IDs",
+    readme: "./packages/zod/README.md",
+    importMap: "./packages/zod/deno.json",
+    peerDependencies: { zod: "^4" },
+    skipNpmInstall: true,
+  },
   {
     name: "@tnid/wasm",
     dir: "wasm",
@@ -114,6 +194,26 @@ for (const pkg of packages) {
       [coreIndex]: { name: "@tnid/core", version: `^${VERSION}`, peerDependency: true },
       [encryptionIndex]: { name: "@tnid/encryption", version: `^${VERSION}`, peerDependency: true },
     };
+  } else if (pkg.name === "@tnid/cli") {
+    const coreIndex = toFileUrl(Deno.realPathSync("./packages/core/src/index.ts")).href;
+    const encryptionIndex = toFileUrl(Deno.realPathSync("./packages/encryption/src/index.ts")).href;
+    const filterIndex = toFileUrl(Deno.realPathSync("./packages/filter/src/index.ts")).href;
+    const filterEncryption = toFileUrl(Deno.realPathSync("./packages/filter/src/filter_encryption.ts")).href;
+    mappings = {
+      [coreIndex]: { name: "@tnid/core", version: `^${VERSION}` },
+      [encryptionIndex]: { name: "@tnid/encryption", version: `^${VERSION}` },
+      [filterIndex]: { name: "@tnid/filter", version: `^${VERSION}` },
+      [filterEncryption]: { name: "@tnid/filter", version: `^${VERSION}`, subPath: "encryption" },
+    };
+  } else if (
+    pkg.name === "@tnid/drizzle" || pkg.name === "@tnid/kysely" ||
+    pkg.name === "@tnid/postgres" || pkg.name === "@tnid/prisma" ||
+    pkg.name === "@tnid/sqlite" || pkg.name === "@tnid/zod"
+  ) {
+    const coreIndex = toFileUrl(Deno.realPathSync("./packages/core/src/index.ts")).href;
+    mappings = {
+      [coreIndex]: { name: "@tnid/core", version: `^${VERSION}`, peerDependency: true },
+    };
   } else if (pkg.name === "@tnid/wasm") {
     // wasm only imports from @tnid/core main export, not uuid
     const coreIndex = toFileUrl(Deno.realPathSync("./packages/core/src/index.ts")).href;
@@ -123,7 +223,7 @@ for (const pkg of packages) {
   }
 
   // Create node_modules/@tnid symlinks for packages that depend on core/encryption
-  if (pkg.name === "@tnid/encryption" || pkg.name === "@tnid/wasm" || pkg.name === "@tnid/filter") {
+  if (pkg.name === "@tnid/encryption" || pkg.name === "@tnid/cli" || pkg.name === "@tnid/drizzle" || pkg.name === "@tnid/wasm" || pkg.name === "@tnid/filter" || pkg.name === "@tnid/kysely" || pkg.name === "@tnid/postgres" || pkg.name === "@tnid/prisma" || pkg.name === "@tnid/sqlite" || pkg.name === "@tnid/zod") {
     const nodeModulesPath = `./npm/${pkg.dir}/node_modules/@tnid`;
     await Deno.mkdir(nodeModulesPath, { recursive: true });
     try {
@@ -133,7 +233,7 @@ for (const pkg of packages) {
     await Deno.symlink(coreBuildPath, `${nodeModulesPath}/core`);
     console.log(`  Linked @tnid/core from ${coreBuildPath}`);
   }
-  if (pkg.name === "@tnid/filter") {
+  if (pkg.name === "@tnid/filter" || pkg.name === "@tnid/cli") {
     const nodeModulesPath = `./npm/${pkg.dir}/node_modules/@tnid`;
     try {
       await Deno.remove(`${nodeModulesPath}/encryption`, { recursive: true });
@@ -142,11 +242,20 @@ for (const pkg of packages) {
     await Deno.symlink(encryptionBuildPath, `${nodeModulesPath}/encryption`);
     console.log(`  Linked @tnid/encryption from ${encryptionBuildPath}`);
   }
+  if (pkg.name === "@tnid/cli") {
+    const nodeModulesPath = `./npm/${pkg.dir}/node_modules/@tnid`;
+    try {
+      await Deno.remove(`${nodeModulesPath}/filter`, { recursive: true });
+    } catch { /* ignore if doesn't exist */ }
+    const filterBuildPath = Deno.realPathSync("./npm/filter");
+    await Deno.symlink(filterBuildPath, `${nodeModulesPath}/filter`);
+    console.log(`  Linked @tnid/filter from ${filterBuildPath}`);
+  }
 
   await build({
     entryPoints,
     outDir: `./npm/${pkg.dir}`,
-    shims: {},
+    shims: pkg.denoShim ? { deno: true } : {},
     importMap: importMapUrl,
     mappings,
     skipNpmInstall: pkg.skipNpmInstall ?? false,
@@ -200,6 +309,18 @@ for (const pkg of packages) {
       dependencies: pkg.dependencies || {},
     },
     async postBuild() {
+      // Declare shared npm packages as peers, so apps keep a single copy
+      if (pkg.peerDependencies) {
+        const packageJsonPath = `npm/${pkg.dir}/package.json`;
+        const packageJson = JSON.parse(await Deno.readTextFile(packageJsonPath));
+        for (const [name, version] of Object.entries(pkg.peerDependencies)) {
+          delete packageJson.dependencies?.[name];
+          packageJson.peerDependencies = { ...packageJson.peerDependencies, [name]: version };
+        }
+        await Deno.writeTextFile(packageJsonPath, JSON.stringify(packageJson, null, 2) + "\n");
+        console.log(`  Declared peer dependencies: ${Object.keys(pkg.peerDependencies).join(", ")}`);
+      }
+
       // Copy LICENSE
       try {
         Deno.copyFileSync("LICENSE.txt", `npm/${pkg.dir}/LICENSE`);
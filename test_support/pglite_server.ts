@@ -0,0 +1,43 @@
+/**
+ * Local Postgres stand-in for the @tnid/postgres driver tests and the
+ * @tnid/kysely plugin tests: an in-process PGlite database served over TCP,
+ * so node-postgres, postgres.js and Kysely connect to it like a real server.
+ */
+
+import { PGlite } from "@electric-sql/pglite";
+import { PGLiteSocketServer } from "@electric-sql/pglite-socket";
+
+export interface TestServer {
+  db: PGlite;
+  host: string;
+  port: number;
+  close(): Promise<void>;
+}
+
+/** Start PGlite on a free local port, with a `users` and a `posts` table. */
+export async function startTestServer(): Promise<TestServer> {
+  const db = await PGlite.create();
+  await db.exec(`
+    CREATE TABLE users (id uuid PRIMARY KEY, name text NOT NULL);
+    CREATE TABLE posts (
+      id uuid PRIMARY KEY,
+      author_id uuid REFERENCES users (id),
+      editor_ids uuid[] NOT NULL DEFAULT '{}',
+      title text NOT NULL
+    );
+  `);
+
+  const server = new PGLiteSocketServer({ db, host: "127.0.0.1", port: 0 });
+  await server.start();
+  const [host, port] = server.getServerConn().split(":");
+
+  return {
+    db,
+    host,
+    port: Number(port),
+    async close() {
+      await server.stop();
+      await db.close();
+    },
+  };
+}